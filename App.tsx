@@ -15,21 +15,28 @@ import {
 import Svg, { Path } from 'react-native-svg';
 import * as Haptics from 'expo-haptics';
 import { MultiplayerApp } from './src/App.multiplayer';
-import { WORDS } from './src/lib/words';
+import { CATEGORIES } from './src/lib/words';
+import { filterWords, listWords, pickWord } from './src/lib/wordPicker';
+import { LOCAL_HISTORY_KEY, loadWordHistory, recentWords, recordPlayedWord } from './src/lib/wordHistory';
+import { WordPack } from './src/lib/wordPacks';
+import { WordCategory } from './src/types/multiplayer';
+import { useWordPacks } from './src/hooks/useWordPacks';
+import { WordPacksScreen } from './src/screens/WordPacksScreen';
+import {
+  GameEngineState,
+  GameEvent,
+  LOCAL_VIEWER,
+  createLocalGameState,
+  getTeamScores,
+  reduceGame,
+  runLocalGame,
+} from './src/lib/gameEngine';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const CANVAS_SIZE = SCREEN_WIDTH - 32;
 
 type AppMode = 'select' | 'multiplayer' | 'local';
 
-// Use shared Pictionary-style drawable words
-const DIFFICULTY_WORDS = {
-  easy: WORDS.easy,
-  medium: WORDS.medium,
-  hard: WORDS.hard,
-  mixed: [...WORDS.easy, ...WORDS.medium, ...WORDS.hard],
-};
-
 const COLORS = ['#000000', '#FFFFFF', '#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FFE66D', '#DDA0DD', '#FF69B4', '#FFA500'];
 const BRUSH_SIZES = [3, 6, 10, 16];
 const TIME_OPTIONS = [30, 60, 90, 120];
@@ -48,6 +55,9 @@ interface GameSettings {
   difficulty: Difficulty;
   teamCount: 2 | 3 | 4;
   totalRounds: number;
+  wordPack: WordPack | null; // Custom list instead of the built-in words
+  categories: WordCategory[]; // Built-in topics to draw from (none: any)
+  kidSafe: boolean;
 }
 
 const ROUND_OPTIONS = [6, 8, 10, 12];
@@ -514,9 +524,6 @@ const modeStyles = StyleSheet.create({
 // Local Game - Redesigned with unified theme
 function LocalGameApp({ onBack }: { onBack: () => void }) {
   const [gameState, setGameState] = useState<GameState>('menu');
-  const [currentWord, setCurrentWord] = useState('');
-  const [scores, setScores] = useState<number[]>([0, 0]);
-  const [currentTeam, setCurrentTeam] = useState(0);
   const [timeLeft, setTimeLeft] = useState(60);
   const [paths, setPaths] = useState<PathData[]>([]);
   const [currentPath, setCurrentPath] = useState('');
@@ -529,14 +536,23 @@ function LocalGameApp({ onBack }: { onBack: () => void }) {
     difficulty: 'mixed',
     teamCount: 2,
     totalRounds: 10,
+    wordPack: null,
+    categories: [],
+    kidSafe: false,
   });
+  const { packs, setPacks } = useWordPacks();
+  const [showWordPacks, setShowWordPacks] = useState(false);
   const [isTiebreaker, setIsTiebreaker] = useState(false);
-  const [roundNumber, setRoundNumber] = useState(1);
+  // Rounds, turns and scores are driven by the shared rules engine
+  const [game, setGame] = useState<GameEngineState>(() => createLocalGameState(2, 10));
+  const gameRef = useRef(game);
   
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const wordTimerRef = useRef<NodeJS.Timeout | null>(null);
   const countdownRef = useRef<NodeJS.Timeout | null>(null);
   const usedWordsRef = useRef<Set<string>>(new Set());
+  // Words from earlier games on this device, which come up last
+  const recentWordsRef = useRef<Set<string>>(new Set());
 
   // Animations
   const scaleAnim = useRef(new Animated.Value(1)).current;
@@ -570,20 +586,43 @@ function LocalGameApp({ onBack }: { onBack: () => void }) {
     }
   }, [timeLeft, gameState]);
 
+  const reloadWordHistory = useCallback(() => {
+    loadWordHistory(LOCAL_HISTORY_KEY).then(history => {
+      recentWordsRef.current = recentWords(history);
+    });
+  }, []);
+
+  useEffect(() => {
+    reloadWordHistory();
+  }, [reloadWordHistory]);
+
+  // Same picker as online rooms: custom list or filtered built-in words, no
+  // repeats, and words from earlier games last
   const getRandomWord = useCallback(() => {
-    let wordPool: string[];
-    if (settings.difficulty === 'mixed') {
-      wordPool = [...DIFFICULTY_WORDS.easy, ...DIFFICULTY_WORDS.medium, ...DIFFICULTY_WORDS.hard];
-    } else {
-      wordPool = DIFFICULTY_WORDS[settings.difficulty];
-    }
-    const available = wordPool.filter(w => !usedWordsRef.current.has(w.toLowerCase().trim()));
-    const pool = available.length > 0 ? available : wordPool;
-    if (available.length === 0) usedWordsRef.current.clear();
-    const word = pool[Math.floor(Math.random() * pool.length)];
-    usedWordsRef.current.add(word.toLowerCase().trim());
+    const pool = settings.wordPack
+      ? listWords(settings.wordPack.words, 'medium')
+      : filterWords({ difficulty: settings.difficulty, categories: settings.categories, kidSafe: settings.kidSafe });
+    const { word } = pickWord(pool, usedWordsRef.current, recentWordsRef.current);
+    recentWordsRef.current.add(word);
+    recordPlayedWord(LOCAL_HISTORY_KEY, word).catch(e => console.error('Failed to save word history:', e));
     return word;
-  }, [settings.difficulty]);
+  }, [settings.difficulty, settings.wordPack, settings.categories, settings.kidSafe]);
+
+  const currentWord = game.word || '';
+  const scores = getTeamScores(game.players, game.teamCount);
+  const currentTeam = game.drawingTeam - 1;
+  const roundNumber = game.round;
+
+  const updateGame = useCallback((next: GameEngineState) => {
+    gameRef.current = next;
+    setGame(next);
+  }, []);
+
+  const dispatchLocal = useCallback((event: GameEvent) => {
+    const next = runLocalGame(gameRef.current, event, getRandomWord);
+    updateGame(next);
+    return next;
+  }, [getRandomWord, updateGame]);
 
   const teamColors = ['🔵', '🔴', '🟢', '🟡'];
   const teamNames = ['Blue', 'Red', 'Green', 'Yellow'];
@@ -607,8 +646,7 @@ function LocalGameApp({ onBack }: { onBack: () => void }) {
   }, []);
 
   const startRound = useCallback(() => {
-    const word = getRandomWord();
-    setCurrentWord(word);
+    dispatchLocal({ type: 'start_round' });
     setPaths([]);
     setCurrentPath('');
     setTimeLeft(settings.timeLimit);
@@ -640,7 +678,7 @@ function LocalGameApp({ onBack }: { onBack: () => void }) {
         }, 1000);
       }, 1000);
     }, 1000);
-  }, [getRandomWord, settings.timeLimit, startGameTimer]);
+  }, [dispatchLocal, settings.timeLimit, startGameTimer]);
 
   const handleGuessCorrect = useCallback(() => {
     // Clear all timers
@@ -656,22 +694,15 @@ function LocalGameApp({ onBack }: { onBack: () => void }) {
       Animated.spring(scoreScale, { toValue: 1, friction: 3, useNativeDriver: true }),
     ]).start();
 
-    const nextRound = roundNumber + 1;
-    setScores((prev) => {
-      const newScores = [...prev];
-      newScores[currentTeam] += 1;
-      return newScores;
+    dispatchLocal({
+      type: 'correct_guess',
+      player_id: `team_${game.drawingTeam}`,
+      player_name: teamNames[currentTeam],
+      guesser_points: 1,
     });
-    setCurrentTeam((prev) => (prev + 1) % settings.teamCount);
-    setRoundNumber(nextRound);
-    
-    // Check if game should end
-    if (roundNumber >= settings.totalRounds) {
-      setGameState('finished');
-    } else {
-      setGameState('menu');
-    }
-  }, [currentTeam, settings.teamCount, settings.totalRounds, roundNumber]);
+    const next = dispatchLocal({ type: 'end_round', round: game.round, now: Date.now() });
+    setGameState(next.status === 'finished' ? 'finished' : 'menu');
+  }, [dispatchLocal, game.drawingTeam, game.round, currentTeam]);
 
   const handleSkip = useCallback(() => {
     // Clear all timers
@@ -681,17 +712,9 @@ function LocalGameApp({ onBack }: { onBack: () => void }) {
     setShowWord(false);
     
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    const nextRound = roundNumber + 1;
-    setCurrentTeam((prev) => (prev + 1) % settings.teamCount);
-    setRoundNumber(nextRound);
-    
-    // Check if game should end
-    if (roundNumber >= settings.totalRounds) {
-      setGameState('finished');
-    } else {
-      setGameState('menu');
-    }
-  }, [settings.teamCount, settings.totalRounds, roundNumber]);
+    const next = dispatchLocal({ type: 'end_round', round: game.round, now: Date.now() });
+    setGameState(next.status === 'finished' ? 'finished' : 'menu');
+  }, [dispatchLocal, game.round]);
 
   const clearCanvas = useCallback(() => {
     setPaths([]);
@@ -706,21 +729,19 @@ function LocalGameApp({ onBack }: { onBack: () => void }) {
 
   const resetGame = useCallback(() => {
     usedWordsRef.current.clear();
-    setScores(Array(settings.teamCount).fill(0));
-    setCurrentTeam(0);
-    setRoundNumber(1);
+    updateGame(createLocalGameState(settings.teamCount, settings.totalRounds));
     setIsTiebreaker(false);
     setGameState('menu');
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-  }, [settings.teamCount]);
+  }, [settings.teamCount, settings.totalRounds, updateGame]);
 
   const startTiebreaker = useCallback(() => {
     setIsTiebreaker(true);
-    // Add one round per team for the tiebreaker
-    setSettings((s) => ({ ...s, totalRounds: roundNumber + s.teamCount - 1 }));
+    // Engine adds one round per team; the menu screen starts the first one
+    updateGame(reduceGame(gameRef.current, { type: 'start_tiebreaker' }, LOCAL_VIEWER).state);
     setGameState('menu');
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-  }, [roundNumber]);
+  }, [updateGame]);
 
   const handleTouchStart = (event: GestureResponderEvent) => {
     const { locationX, locationY } = event.nativeEvent;
@@ -803,9 +824,20 @@ function LocalGameApp({ onBack }: { onBack: () => void }) {
     </SafeAreaView>
   );
 
+  // Pick up edits to the chosen list (or drop it if it was deleted)
+  const closeWordPacks = () => {
+    setShowWordPacks(false);
+    setSettings((s) => ({ ...s, wordPack: packs.find(p => p.id === s.wordPack?.id) ?? null }));
+    reloadWordHistory(); // It may have been cleared from the Played view
+  };
+
   // SETTINGS SCREEN - Redesigned
   const renderSettings = () => (
     <SafeAreaView style={styles.container}>
+      <Modal visible={showWordPacks} animationType="slide" onRequestClose={closeWordPacks}>
+        <WordPacksScreen packs={packs} historyKey={LOCAL_HISTORY_KEY} onPacksChanged={setPacks} onClose={closeWordPacks} />
+      </Modal>
+
       <View style={styles.header}>
         <TouchableOpacity style={styles.backButton} onPress={() => setGameState('menu')}>
           <Text style={styles.backText}>← Back</Text>
@@ -836,26 +868,101 @@ function LocalGameApp({ onBack }: { onBack: () => void }) {
           </View>
         </View>
 
-        {/* Difficulty Setting */}
+        {/* Word List Setting */}
         <View style={styles.settingCard}>
           <View style={styles.settingHeader}>
-            <Text style={styles.settingIcon}>📊</Text>
-            <Text style={styles.settingTitle}>Difficulty</Text>
+            <Text style={styles.settingIcon}>📚</Text>
+            <Text style={styles.settingTitle}>Word List</Text>
           </View>
           <View style={styles.optionGrid}>
-            {(['easy', 'medium', 'hard', 'mixed'] as Difficulty[]).map((diff) => (
+            {[null, ...packs].map((pack) => {
+              const selected = (settings.wordPack?.id ?? null) === (pack?.id ?? null);
+              return (
+                <TouchableOpacity
+                  key={pack?.id ?? 'built-in'}
+                  style={[styles.optionPill, selected && styles.optionPillActive]}
+                  onPress={() => { setSettings((s) => ({ ...s, wordPack: pack })); Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); }}
+                >
+                  <Text style={[styles.optionPillText, selected && styles.optionPillTextActive]}>
+                    {pack?.name ?? 'Built-in'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity style={styles.optionPill} onPress={() => setShowWordPacks(true)}>
+              <Text style={styles.optionPillText}>✏️ My lists</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Difficulty Setting (custom lists have no tiers) */}
+        {!settings.wordPack && (
+          <View style={styles.settingCard}>
+            <View style={styles.settingHeader}>
+              <Text style={styles.settingIcon}>📊</Text>
+              <Text style={styles.settingTitle}>Difficulty</Text>
+            </View>
+            <View style={styles.optionGrid}>
+              {(['easy', 'medium', 'hard', 'mixed'] as Difficulty[]).map((diff) => (
+                <TouchableOpacity
+                  key={diff}
+                  style={[styles.optionPill, settings.difficulty === diff && styles.optionPillActive]}
+                  onPress={() => { setSettings((s) => ({ ...s, difficulty: diff })); Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); }}
+                >
+                  <Text style={[styles.optionPillText, settings.difficulty === diff && styles.optionPillTextActive]}>
+                    {diff.charAt(0).toUpperCase() + diff.slice(1)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* Topic Settings (built-in words only) */}
+        {!settings.wordPack && (
+          <View style={styles.settingCard}>
+            <View style={styles.settingHeader}>
+              <Text style={styles.settingIcon}>🏷️</Text>
+              <Text style={styles.settingTitle}>Topics</Text>
+            </View>
+            <View style={styles.optionGrid}>
               <TouchableOpacity
-                key={diff}
-                style={[styles.optionPill, settings.difficulty === diff && styles.optionPillActive]}
-                onPress={() => { setSettings((s) => ({ ...s, difficulty: diff })); Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); }}
+                style={[styles.optionPill, settings.categories.length === 0 && styles.optionPillActive]}
+                onPress={() => { setSettings((s) => ({ ...s, categories: [] })); Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); }}
               >
-                <Text style={[styles.optionPillText, settings.difficulty === diff && styles.optionPillTextActive]}>
-                  {diff.charAt(0).toUpperCase() + diff.slice(1)}
-                </Text>
+                <Text style={[styles.optionPillText, settings.categories.length === 0 && styles.optionPillTextActive]}>Any</Text>
               </TouchableOpacity>
-            ))}
+              {CATEGORIES.map((category) => {
+                const selected = settings.categories.includes(category.id);
+                return (
+                  <TouchableOpacity
+                    key={category.id}
+                    style={[styles.optionPill, selected && styles.optionPillActive]}
+                    onPress={() => {
+                      setSettings((s) => ({
+                        ...s,
+                        categories: selected ? s.categories.filter(c => c !== category.id) : [...s.categories, category.id],
+                      }));
+                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    }}
+                  >
+                    <Text style={[styles.optionPillText, selected && styles.optionPillTextActive]}>
+                      {category.emoji} {category.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <TouchableOpacity
+              style={[styles.optionPill, styles.kidSafePill, settings.kidSafe && styles.optionPillActive]}
+              onPress={() => { setSettings((s) => ({ ...s, kidSafe: !s.kidSafe })); Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); }}
+            >
+              <Text style={[styles.optionPillText, settings.kidSafe && styles.optionPillTextActive]}>
+                🧒 Kid-safe words {settings.kidSafe ? 'ON' : 'OFF'}
+              </Text>
+            </TouchableOpacity>
           </View>
-        </View>
+        )}
 
         {/* Teams Setting */}
         <View style={styles.settingCard}>
@@ -870,7 +977,7 @@ function LocalGameApp({ onBack }: { onBack: () => void }) {
                 style={[styles.optionPill, styles.optionPillWide, settings.teamCount === count && styles.optionPillActive]}
                 onPress={() => {
                   setSettings((s) => ({ ...s, teamCount: count }));
-                  setScores(Array(count).fill(0));
+                  updateGame(createLocalGameState(count, settings.totalRounds));
                   Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
                 }}
               >
@@ -893,7 +1000,11 @@ function LocalGameApp({ onBack }: { onBack: () => void }) {
               <TouchableOpacity
                 key={count}
                 style={[styles.optionPill, settings.totalRounds === count && styles.optionPillActive]}
-                onPress={() => { setSettings((s) => ({ ...s, totalRounds: count })); Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light); }}
+                onPress={() => {
+                  setSettings((s) => ({ ...s, totalRounds: count }));
+                  updateGame({ ...gameRef.current, totalRounds: count });
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                }}
               >
                 <Text style={[styles.optionPillText, settings.totalRounds === count && styles.optionPillTextActive]}>
                   {count}
@@ -1291,6 +1402,7 @@ const styles = StyleSheet.create({
   optionGrid: { flexDirection: 'row', flexWrap: 'wrap', gap: 10 },
   optionPill: { backgroundColor: 'rgba(255,255,255,0.15)', paddingHorizontal: 20, paddingVertical: 12, borderRadius: 16, borderWidth: 2, borderColor: 'transparent' },
   optionPillWide: { flex: 1, alignItems: 'center' },
+  kidSafePill: { marginTop: 12, alignItems: 'center' },
   optionPillActive: { backgroundColor: '#4ECDC4', borderColor: '#4ECDC4' },
   optionPillText: { fontSize: 16, fontWeight: '600', color: 'rgba(255,255,255,0.8)' },
   optionPillTextActive: { color: '#fff' },
@@ -3,17 +3,22 @@ import { View, StyleSheet, Alert, Animated, Easing, ActivityIndicator, Text, Tou
 import * as Haptics from 'expo-haptics';
 import { HomeScreen } from './screens/HomeScreen';
 import { CreateRoomScreen } from './screens/CreateRoomScreen';
-import { JoinRoomScreen } from './screens/JoinRoomScreen';
+import { JoinRoomScreen, JOIN_REJECT_MESSAGES } from './screens/JoinRoomScreen';
 import { LobbyScreen } from './screens/LobbyScreen';
 import { MultiplayerGameScreen } from './screens/MultiplayerGameScreen';
 import { useMultiplayer, getSavedSession, clearSession } from './hooks/useMultiplayer';
 import { isSupabaseConfigured } from './lib/supabase';
-import { Player } from './types/multiplayer';
+import { secondsUntil } from './lib/clock';
+import { getLeaders, getTeamScores } from './lib/gameEngine';
+import { getTeamInfo } from './lib/teams';
+import { GameMode, JoinAnswer, Player } from './types/multiplayer';
 
 // Game End Screen Component
 interface GameEndScreenProps {
   players: Player[];
   currentPlayer: Player | null;
+  teamCount: number;
+  mode: GameMode;
   onPlayAgain: () => void;
   onTiebreaker: () => void;
   onLeave: () => void;
@@ -22,25 +27,34 @@ interface GameEndScreenProps {
 const GameEndScreen: React.FC<GameEndScreenProps> = ({
   players,
   currentPlayer,
+  teamCount,
+  mode,
   onPlayAgain,
   onTiebreaker,
   onLeave,
 }) => {
+  const isFreeForAll = mode === 'free_for_all';
   const scaleAnim = useRef(new Animated.Value(0)).current;
   const confettiAnim = useRef(new Animated.Value(0)).current;
 
-  const team1Players = players.filter(p => p.team === 1);
-  const team2Players = players.filter(p => p.team === 2);
-  const team1Score = team1Players.reduce((sum, p) => sum + p.score, 0);
-  const team2Score = team2Players.reduce((sum, p) => sum + p.score, 0);
-  
-  const winningTeam = team1Score > team2Score ? 1 : team2Score > team1Score ? 2 : 0;
+  // Every team with the top score; more than one means a tie
+  const teamScores = getTeamScores(players, teamCount);
+  const topScore = Math.max(...teamScores);
+  const winningTeams = teamScores
+    .map((score, i) => ({ team: i + 1, score }))
+    .filter(t => t.score === topScore)
+    .map(t => t.team);
+  const winningTeam = winningTeams.length > 1 ? 0 : winningTeams[0];
   const myTeamWon = currentPlayer?.team === winningTeam;
-  const isTie = team1Score === team2Score;
+
+  // Free-for-all: individual scores decide
+  const leaders = getLeaders(players);
+  const isTie = isFreeForAll ? leaders.length > 1 : winningTeams.length > 1;
+  const iWon = isFreeForAll ? !isTie && leaders[0]?.id === currentPlayer?.id : myTeamWon;
 
   useEffect(() => {
     Haptics.notificationAsync(
-      myTeamWon ? Haptics.NotificationFeedbackType.Success : Haptics.NotificationFeedbackType.Warning
+      iWon ? Haptics.NotificationFeedbackType.Success : Haptics.NotificationFeedbackType.Warning
     );
     
     Animated.sequence([
@@ -60,6 +74,8 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
   }, []);
 
   const sortedPlayers = [...players].sort((a, b) => b.score - a.score);
+  // Equal scores share a place
+  const places = sortedPlayers.map(player => sortedPlayers.findIndex(p => p.score === player.score));
 
   return (
     <SafeAreaView style={endStyles.container}>
@@ -73,32 +89,37 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
             {isTie ? '🤝' : '🏆'}
           </Animated.Text>
           <Text style={endStyles.resultTitle}>
-            {isTie ? "It's a Tie!" : myTeamWon ? 'Your Team Won!' : 'Game Over!'}
+            {isTie ? "It's a Tie!" : iWon ? (isFreeForAll ? 'You Won!' : 'Your Team Won!') : 'Game Over!'}
           </Text>
           {!isTie && (
             <Text style={endStyles.winnerText}>
-              {winningTeam === 1 ? '🔵 Team Blue' : '🔴 Team Red'} Wins!
+              {isFreeForAll
+                ? `🎨 ${leaders[0]?.name} Wins!`
+                : `${getTeamInfo(winningTeam).emoji} Team ${getTeamInfo(winningTeam).name} Wins!`}
             </Text>
           )}
         </Animated.View>
 
         {/* Final Scores */}
-        <View style={endStyles.scoresContainer}>
-          <View style={[endStyles.teamFinalScore, winningTeam === 1 && endStyles.winningTeam]}>
-            <Text style={endStyles.teamLabel}>🔵 Team Blue</Text>
-            <Text style={endStyles.finalScore}>{team1Score}</Text>
-            {winningTeam === 1 && <Text style={endStyles.crownEmoji}>👑</Text>}
-          </View>
-          <View style={[endStyles.teamFinalScore, winningTeam === 2 && endStyles.winningTeam]}>
-            <Text style={endStyles.teamLabel}>🔴 Team Red</Text>
-            <Text style={endStyles.finalScore}>{team2Score}</Text>
-            {winningTeam === 2 && <Text style={endStyles.crownEmoji}>👑</Text>}
+        {!isFreeForAll && (
+          <View style={endStyles.scoresContainer}>
+            {teamScores.map((score, i) => {
+              const team = i + 1;
+              const info = getTeamInfo(team);
+              return (
+                <View key={team} style={[endStyles.teamFinalScore, winningTeam === team && endStyles.winningTeam]}>
+                  <Text style={endStyles.teamLabel}>{info.emoji} Team {info.name}</Text>
+                  <Text style={endStyles.finalScore}>{score}</Text>
+                  {winningTeam === team && <Text style={endStyles.crownEmoji}>👑</Text>}
+                </View>
+              );
+            })}
           </View>
-        </View>
+        )}
 
         {/* Leaderboard */}
         <View style={endStyles.leaderboard}>
-          <Text style={endStyles.leaderboardTitle}>🎨 Player Scores</Text>
+          <Text style={endStyles.leaderboardTitle}>{isFreeForAll ? '🏅 Final Ranking' : '🎨 Player Scores'}</Text>
           {sortedPlayers.map((player, index) => (
             <View 
               key={player.id} 
@@ -108,15 +129,17 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
               ]}
             >
               <Text style={endStyles.rankText}>
-                {index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`}
+                {places[index] === 0 ? '🥇' : places[index] === 1 ? '🥈' : places[index] === 2 ? '🥉' : `${places[index] + 1}.`}
               </Text>
               <View style={endStyles.playerInfo}>
                 <Text style={endStyles.playerName}>
                   {player.name} {player.id === currentPlayer?.id && '(You)'}
                 </Text>
-                <Text style={endStyles.teamIndicator}>
-                  {player.team === 1 ? '🔵' : '🔴'}
-                </Text>
+                {!isFreeForAll && (
+                  <Text style={endStyles.teamIndicator}>
+                    {player.team ? getTeamInfo(player.team).emoji : '⚪'}
+                  </Text>
+                )}
               </View>
               <Text style={endStyles.playerScore}>{player.score} pts</Text>
             </View>
@@ -199,11 +222,13 @@ const endStyles = StyleSheet.create({
   },
   scoresContainer: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 16,
     marginVertical: 20,
   },
   teamFinalScore: {
     flex: 1,
+    minWidth: '40%', // Two per row with 3-4 teams
     backgroundColor: 'rgba(255,255,255,0.15)',
     borderRadius: 20,
     padding: 20,
@@ -344,6 +369,9 @@ const endStyles = StyleSheet.create({
 
 type Screen = 'home' | 'create' | 'join' | 'lobby' | 'game' | 'finished';
 
+// Finer than a second so the display flips close to the real boundary
+const TIMER_TICK_MS = 250;
+
 interface MultiplayerAppProps {
   onPlayLocal: () => void;
   onBack: () => void;
@@ -355,6 +383,7 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({ onPlayLocal, onB
   const [isRestoring, setIsRestoring] = useState(true);
   const [joinTimeout, setJoinTimeout] = useState<NodeJS.Timeout | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const timeUpRoundRef = useRef<number | null>(null);
   
   // Screen transition animation
   const fadeAnim = useRef(new Animated.Value(1)).current;
@@ -365,16 +394,27 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({ onPlayLocal, onB
     currentPlayer,
     isConnected,
     error,
+    removedReason,
     drawings,
     messages,
+    wordChoices,
     createRoom,
     joinRoom,
     leaveRoom,
+    kickPlayer,
+    banPlayer,
+    setRoomLocked,
+    acknowledgeRemoval,
     toggleReady,
     joinTeam,
+    updateSettings,
+    shufflePlayers,
+    balancePlayers,
     startGame,
     tagTeam,
+    chooseWord,
     endRound,
+    getSyncedNow,
     markCorrectGuess,
     skipWord,
     resetForNewGame,
@@ -407,16 +447,18 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({ onPlayLocal, onB
               {
                 text: 'Rejoin',
                 onPress: async () => {
-                  const success = await joinRoom(savedSession.roomCode, savedSession.playerName);
-                  if (success) {
+                  const answer = await joinRoom(savedSession.roomCode, savedSession.playerName);
+                  if (answer.accepted) {
+                    // Waits here for the host's sync_state, then moves on to the
+                    // game or results screen if the room is past the lobby
                     setScreen('lobby');
                   } else {
-                    // Room no longer exists
-                    Alert.alert(
-                      'Room Not Found',
-                      'The game session has ended. Starting fresh.',
-                      [{ text: 'OK' }]
-                    );
+                    // Room no longer exists, or the host turned us away
+                    const { title } = JOIN_REJECT_MESSAGES[answer.reason];
+                    const message = answer.reason === 'wrong_code'
+                      ? 'The game session has ended.'
+                      : JOIN_REJECT_MESSAGES[answer.reason].message;
+                    Alert.alert(title, `${message} Starting fresh.`, [{ text: 'OK' }]);
                     await clearSession();
                   }
                   setIsRestoring(false);
@@ -452,7 +494,8 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({ onPlayLocal, onB
     });
   }, [fadeAnim]);
 
-  // Timer effect - synced with room state
+  // Timer effect - counts down to the host's round deadline on the shared clock,
+  // so every device shows the same time left
   useEffect(() => {
     if (room?.status !== 'playing') {
       if (timerRef.current) {
@@ -462,28 +505,24 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({ onPlayLocal, onB
       return;
     }
 
-    // Calculate time from round start
-    if (room.round_start_time) {
-      const startTime = new Date(room.round_start_time).getTime();
-      const elapsed = Math.floor((Date.now() - startTime) / 1000);
-      const remaining = Math.max(0, room.settings.timer_seconds - elapsed);
+    const deadline = room.round_deadline;
+    const tick = () => {
+      if (deadline === null) {
+        setTimeRemaining(room.settings.timer_seconds);
+        return;
+      }
+      const remaining = secondsUntil(deadline, getSyncedNow());
       setTimeRemaining(remaining);
-    } else {
-      setTimeRemaining(room.settings.timer_seconds);
-    }
+      
+      // Round ended - host handles transition (once per round)
+      if (remaining === 0 && currentPlayer?.is_host && timeUpRoundRef.current !== room.current_round) {
+        timeUpRoundRef.current = room.current_round;
+        endRound();
+      }
+    };
 
-    timerRef.current = setInterval(() => {
-      setTimeRemaining(prev => {
-        if (prev <= 1) {
-          // Round ended - host handles transition
-          if (currentPlayer?.is_host) {
-            endRound();
-          }
-          return room.settings.timer_seconds; // Reset for next round
-        }
-        return prev - 1;
-      });
-    }, 1000);
+    tick();
+    timerRef.current = setInterval(tick, TIMER_TICK_MS);
 
     return () => {
       if (timerRef.current) {
@@ -491,7 +530,7 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({ onPlayLocal, onB
         timerRef.current = null;
       }
     };
-  }, [room?.status, room?.round_start_time, room?.current_round, currentPlayer?.is_host, endRound]);
+  }, [room?.status, room?.round_deadline, room?.current_round, currentPlayer?.is_host, endRound, getSyncedNow]);
 
   // Show error
   useEffect(() => {
@@ -505,7 +544,7 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({ onPlayLocal, onB
     if (room?.status === 'playing' && screen === 'lobby') {
       transitionTo('game');
     }
-    if (room?.status === 'finished' && screen === 'game') {
+    if (room?.status === 'finished' && (screen === 'game' || screen === 'lobby')) {
       transitionTo('finished');
     }
     // Navigate back to lobby when host resets game
@@ -515,6 +554,22 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({ onPlayLocal, onB
     // Note: Don't auto-navigate to home when room is null - 
     // the lobby screen now shows a loading state while waiting for room sync
   }, [room?.status, screen, transitionTo]);
+
+  // The host kicked or banned us: back to the start with an explanation
+  useEffect(() => {
+    if (!removedReason) return;
+    
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    Alert.alert(
+      removedReason === 'banned' ? 'Banned From Room' : 'Removed From Room',
+      removedReason === 'banned'
+        ? 'The host banned you from this room.'
+        : 'The host removed you from the room.',
+      [{ text: 'OK' }]
+    );
+    acknowledgeRemoval();
+    transitionTo('home');
+  }, [removedReason, acknowledgeRemoval, transitionTo]);
   
   // Timeout for joining room - if no response from host after 15 seconds
   useEffect(() => {
@@ -557,14 +612,14 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({ onPlayLocal, onB
   }, [createRoom]);
 
   // Handle room join
-  const handleJoinRoom = useCallback(async (code: string, playerName: string) => {
+  const handleJoinRoom = useCallback(async (code: string, playerName: string): Promise<JoinAnswer> => {
     if (!isSupabaseConfigured()) {
       Alert.alert(
         'Setup Required', 
         'Multiplayer requires Supabase configuration.',
         [{ text: 'OK' }]
       );
-      return false;
+      return { accepted: false, reason: 'failed' };
     }
     return await joinRoom(code, playerName);
   }, [joinRoom]);
@@ -650,6 +705,12 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({ onPlayLocal, onB
             currentPlayer={currentPlayer}
             onJoinTeam={joinTeam}
             onToggleReady={toggleReady}
+            onUpdateSettings={updateSettings}
+            onKickPlayer={kickPlayer}
+            onBanPlayer={banPlayer}
+            onSetLocked={setRoomLocked}
+            onShuffleTeams={shufflePlayers}
+            onBalanceTeams={balancePlayers}
             onStartGame={handleStartGame}
             onLeave={handleLeave}
           />
@@ -669,11 +730,16 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({ onPlayLocal, onB
             drawings={drawings}
             word={room.current_word}
             timeRemaining={timeRemaining}
+            wordChoices={wordChoices}
+            getSyncedNow={getSyncedNow}
+            onChooseWord={chooseWord}
             onSendDrawing={sendDrawing}
             onSendChat={sendChat}
             onTagTeam={tagTeam}
             onCorrectGuess={markCorrectGuess}
             onSkipWord={skipWord}
+            onKickPlayer={kickPlayer}
+            onBanPlayer={banPlayer}
             onLeave={handleLeave}
           />
         );
@@ -683,6 +749,8 @@ export const MultiplayerApp: React.FC<MultiplayerAppProps> = ({ onPlayLocal, onB
           <GameEndScreen
             players={players}
             currentPlayer={currentPlayer}
+            teamCount={room?.settings.team_count ?? 2}
+            mode={room?.settings.mode ?? 'teams'}
             onPlayAgain={() => {
               // Host resets and goes back to lobby
               if (currentPlayer?.is_host) {
@@ -1,10 +1,24 @@
 import { useEffect, useCallback, useRef } from 'react';
 import { RealtimeChannel } from '@supabase/supabase-js';
-import { supabase, generateRoomCode, generatePlayerId, isSupabaseConfigured } from '../lib/supabase';
+import { supabase, getPlayerId, isSupabaseConfigured, playerInbox, sendToPlayer } from '../lib/supabase';
 import { useGameStore } from '../lib/gameStore';
-import { Player, Room, RoomSettings, DrawingEvent, RoomEvent, ChatMessage, DrawingPath } from '../types/multiplayer';
+import { Player, Room, RoomSettings, DrawingEvent, DrawingInput, RoomEvent, ChatMessage, DrawingPath, JoinAnswer, RemovedReason, ScoreAward, TeamNumber, Difficulty, WordCandidate } from '../types/multiplayer';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { WORDS } from '../lib/words';
+import { aliasesFor } from '../lib/words';
+import { pickWord, roomWordPool } from '../lib/wordPicker';
+import { loadWordHistory, recentWords, recordPlayedWord } from '../lib/wordHistory';
+import { normalizeGuess } from '../lib/guessMatch';
+import { reduceGame, GameEngineState, GameEvent, GameEffect, RESULT_DELAY_MS, withTime } from '../lib/gameEngine';
+import { SCORING_PRESETS, awardGuess, elapsedSince, pointsFor, scoreDrawer, summarizeRound, totalPoints } from '../lib/scoring';
+import { DRAWING_PROTOCOL_VERSION, isSupportedDrawing } from '../lib/canvas';
+import { TeamAssignment, shuffleTeams, balanceTeams, placeUnassigned, getTeamInfo } from '../lib/teams';
+import { LobbySettings, loadLastSettings, saveLastSettings, validateSettings } from '../lib/roomSettings';
+import { CLOCK_PING_COUNT, CLOCK_PING_INTERVAL_MS, ClockSample, sampleClock, bestClockSample } from '../lib/clock';
+import { STROKE_BATCH_MS, Point, StrokeAssembly, encodeDeltas, createStrokeAssembly, receiveBatch } from '../lib/strokeStream';
+import { WordSecret, createWordSecret, hashWordSecret, verifyWordReveal } from '../lib/wordSecret';
+import { wordPattern, hintTimes, pickHintIndex, revealLetter } from '../lib/wordHints';
+import { WORD_CHOICE_MS, WORD_CHOICE_GRACE_MS, candidateDifficulties, offersMixedWords } from '../lib/wordChoice';
+import { insertRoom, fetchRoomByCode, updateRoom, upsertPlayer, updatePlayers, fetchPlayer, deletePlayer, touchPlayer, transferHost, setRoundWord, clearRoundWord, saveStroke, deleteStroke, clearStrokes, fetchStrokes, submitGuess, confirmGuessed, subscribeToGuesses, ValidatedGuess } from '../lib/roomDb';
 
 // Storage keys for session persistence
 const STORAGE_KEYS = {
@@ -14,13 +28,120 @@ const STORAGE_KEYS = {
   SESSION_ACTIVE: 'sessionActive',
 };
 
-const DEFAULT_SETTINGS: RoomSettings = {
-  timer_seconds: 60,
-  difficulty: 'medium',
-  max_players: 8,
-  allow_tag_team: true,
+// Host keeps this many recent events to replay to clients that missed some
+const EVENT_LOG_SIZE = 200;
+// Don't re-ask for a resync more often than this while waiting for one
+const RESYNC_RETRY_MS = 3000;
+// Give up on a join request the host hasn't answered by then
+const JOIN_TIMEOUT_MS = 8000;
+// Tries at storing a round's word, and the pause between them
+const SET_WORD_ATTEMPTS = 3;
+const SET_WORD_RETRY_MS = 1000;
+// A round that couldn't start is tried again after this
+const ROUND_RETRY_MS = 5000;
+// How often we check in with the server while in a room (transfer_host
+// counts a host as gone after 30s without one)
+const HEARTBEAT_MS = 10000;
+// Elected host, but the old one hasn't timed out yet: ask again this often
+const HOST_CLAIM_RETRY_MS = 5000;
+
+// Engine view of the store (messages are cleared every round, so the
+// correct guesses among them are this round's)
+const toEngineState = (room: Room, players: Player[], messages: ChatMessage[]): GameEngineState => ({
+  status: room.status,
+  round: room.current_round,
+  totalRounds: room.total_rounds,
+  mode: room.settings.mode,
+  teamCount: room.settings.team_count,
+  drawingTeam: room.drawing_team,
+  drawerId: players.find(p => p.is_drawing)?.id ?? null,
+  word: room.current_word,
+  deadline: room.round_deadline,
+  players: players.map(p => ({ id: p.id, team: p.team, score: p.score })),
+  guessedIds: messages.filter(m => m.is_correct_guess).map(m => m.player_id),
+  hostId: room.host_id,
+});
+
+// Write an engine state back into the store
+const commitEngineState = (game: GameEngineState) => {
+  const { room, players, currentPlayer, setRoom, setPlayers, setCurrentPlayer } = useGameStore.getState();
+  if (!room) return;
+
+  const applyTo = (p: Player): Player => ({
+    ...p,
+    score: game.players.find(gp => gp.id === p.id)?.score ?? p.score,
+    is_drawing: p.id === game.drawerId,
+  });
+
+  setRoom({
+    ...room,
+    status: game.status,
+    current_round: game.round,
+    total_rounds: game.totalRounds,
+    drawing_team: game.drawingTeam as TeamNumber,
+    current_word: game.word,
+    round_deadline: game.deadline,
+  });
+  setPlayers(players.map(applyTo));
+  if (currentPlayer) {
+    setCurrentPlayer(applyTo(currentPlayer));
+  }
+};
+
+// Whether a room event was numbered by the room's current host (see
+// sendEvent). Anyone can broadcast on the channel; only the host may end a
+// round or the game.
+const isFromHost = (event: any, room: Room | null): boolean =>
+  !!room && typeof event.seq === 'number' && event.seq_host === room.host_id;
+
+// Host election: whoever has been in the room longest (ties by ID), so
+// every client picks the same player without talking to each other
+export const electHost = (players: Player[]): Player | null =>
+  [...players].sort((a, b) =>
+    a.connected_at.localeCompare(b.connected_at) || a.id.localeCompare(b.id)
+  )[0] ?? null;
+
+// Host: whether a player asking to join may come in. `onlineIds` is who's
+// in the room now; `wasInGame` means they had a seat before and may rejoin
+// a game already under way (or a locked room).
+export const admitPlayer = (
+  room: Room,
+  onlineIds: string[],
+  playerId: string,
+  wasInGame: boolean
+): JoinAnswer => {
+  if (room.banned_ids.includes(playerId)) return { accepted: false, reason: 'banned' };
+  if (onlineIds.includes(playerId)) return { accepted: true }; // Another connection of theirs
+  if (room.locked && !wasInGame) return { accepted: false, reason: 'locked' };
+  if (room.status !== 'lobby' && !wasInGame) return { accepted: false, reason: 'in_progress' };
+  if (onlineIds.length >= room.settings.max_players) return { accepted: false, reason: 'full' };
+  return { accepted: true };
 };
 
+// Stroke we're receiving; `batches` is known once its end arrives
+interface IncomingStroke {
+  assembly: StrokeAssembly;
+  batches: number | null;
+}
+
+// Stroke we're sending: points wait in `buffer` until the next batch
+interface OutgoingStroke {
+  path: DrawingPath; // Whole stroke so far, saved once it ends
+  last: Point; // Last point already sent
+  buffer: Point[];
+  batches: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+type RoundStart = Extract<GameEffect, { type: 'start_round' }>;
+
+// Host: a round waiting for its drawer to pick a word
+interface PendingWordChoice {
+  start: RoundStart;
+  candidates: WordCandidate[];
+  timer: ReturnType<typeof setTimeout>; // Picks for them when it fires
+}
+
 // Session persistence helpers
 export const saveSession = async (roomCode: string, playerName: string) => {
   try {
@@ -65,9 +186,43 @@ export const getSavedSession = async (): Promise<{ roomCode: string; playerName:
 
 export const useMultiplayer = () => {
   const channelRef = useRef<RealtimeChannel | null>(null);
+  const inboxRef = useRef<RealtimeChannel | null>(null);
+  const guessesRef = useRef<RealtimeChannel | null>(null);
+  // Host: plaintext word for the current round, kept for the round-end reveal
+  const secretRef = useRef<WordSecret | null>(null);
+  // Drawer: word that may arrive before its round_started
+  const pendingSecretRef = useRef<WordSecret | null>(null);
   const playerIdRef = useRef<string | null>(null);
-  const currentPathRef = useRef<DrawingPath | null>(null);
+  // Strokes still coming in, by stroke ID (several players can draw at once)
+  const incomingStrokesRef = useRef<Record<string, IncomingStroke>>({});
+  const outgoingStrokeRef = useRef<OutgoingStroke | null>(null);
   const usedWordsRef = useRef<Set<string>>(new Set());
+  // Host: words from our earlier games, which come up last (lib/wordHistory.ts)
+  const recentWordsRef = useRef<Set<string>>(new Set());
+  // Host: last sequence number sent, and recent events for replay
+  const sentSeqRef = useRef(0);
+  const eventLogRef = useRef<Array<Record<string, any>>>([]);
+  // Last host sequence number handled here (null until the first one), and
+  // the host that numbered it
+  const lastSeqRef = useRef<number | null>(null);
+  const seqHostRef = useRef<string | null>(null);
+  const resyncRequestedAtRef = useRef<number | null>(null);
+  // Drawing events are numbered per drawer
+  const drawSeqRef = useRef(0);
+  // Add to Date.now() for host time (0 on the host itself)
+  const clockOffsetRef = useRef(0);
+  const clockSamplesRef = useRef<ClockSample[]>([]);
+  const lastDrawSeqRef = useRef<Record<string, number>>({});
+  // Host: points from earlier games in this room, for skill-balanced teams
+  const pastScoresRef = useRef<Record<string, number>>({});
+  // Joiner: resolves our pending join request
+  const joinAnswerRef = useRef<((answer: JoinAnswer) => void) | null>(null);
+  // This round's awards; the host sends them out with round_ended as its
+  // RoundResult (everyone keeps them in case they become host)
+  const roundAwardsRef = useRef<ScoreAward[]>([]);
+  // What a correct guess showed as "the word" this round (it may be an alias or a plural)
+  const shownWordRef = useRef<string | null>(null);
+  const wordChoiceRef = useRef<PendingWordChoice | null>(null);
   
   const {
     room,
@@ -75,36 +230,35 @@ export const useMultiplayer = () => {
     currentPlayer,
     isConnected,
     error,
+    removedReason,
     drawings,
     messages,
+    wordChoices,
     setRoom,
     setPlayers,
     addPlayer,
     removePlayer,
     updatePlayer,
     setCurrentPlayer,
+    setDrawings,
     addDrawing,
     updateDrawing,
     clearDrawings,
-    undoLastDrawing,
+    removeDrawing,
     addMessage,
     clearMessages,
     setConnected,
     setError,
+    setRemovedReason,
     reset,
   } = useGameStore();
 
-  // Initialize player ID on mount
+  // Sign in (anonymously) on mount; the auth user's ID is our player ID
   useEffect(() => {
-    const initPlayerId = async () => {
-      let playerId = await AsyncStorage.getItem('playerId');
-      if (!playerId) {
-        playerId = generatePlayerId();
-        await AsyncStorage.setItem('playerId', playerId);
-      }
-      playerIdRef.current = playerId;
-    };
-    initPlayerId();
+    if (!isSupabaseConfigured()) return;
+    getPlayerId()
+      .then(playerId => { playerIdRef.current = playerId; })
+      .catch(e => console.error('Failed to sign in:', e));
   }, []);
 
   // Clean up channel on unmount
@@ -113,27 +267,50 @@ export const useMultiplayer = () => {
       if (channelRef.current) {
         supabase.removeChannel(channelRef.current);
       }
+      if (inboxRef.current) {
+        supabase.removeChannel(inboxRef.current);
+      }
     };
   }, []);
 
-  // Get a random word based on difficulty (never repeats within a game)
-  const getRandomWord = useCallback((difficulty: 'easy' | 'medium' | 'hard' = 'medium') => {
-    const wordList = WORDS[difficulty];
-    // Filter out already used words
-    const availableWords = wordList.filter(w => !usedWordsRef.current.has(w));
-    
-    // If all words used, reset (shouldn't happen with enough words)
-    if (availableWords.length === 0) {
-      usedWordsRef.current.clear();
-      const word = wordList[Math.floor(Math.random() * wordList.length)];
-      usedWordsRef.current.add(word);
-      return word;
-    }
-    
-    const word = availableWords[Math.floor(Math.random() * availableWords.length)];
-    usedWordsRef.current.add(word);
-    return word;
-  }, []);
+  // Correct guesses come from the database, not from another client
+  useEffect(() => {
+    if (!room?.id || !room.code) return;
+
+    const channel = subscribeToGuesses(room, guess => handleValidatedGuess(guess));
+    guessesRef.current = channel;
+    return () => {
+      supabase.removeChannel(channel);
+      guessesRef.current = null;
+    };
+  }, [room?.id, room?.code]);
+
+  // Check in while we're in a room, so a host that has really gone can be
+  // told apart from one that's only reconnecting
+  useEffect(() => {
+    if (!room?.id || !currentPlayer?.id) return;
+
+    const roomId = room.id;
+    const timer = setInterval(() => {
+      touchPlayer(roomId).catch(e => console.error('Failed to check in:', e));
+    }, HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [room?.id, currentPlayer?.id]);
+
+  // Host: load our word history, whether we made the room or took it over,
+  // and again between games (it may have been cleared or its settings changed)
+  const isHost = !!room && !!currentPlayer && room.host_id === currentPlayer.id;
+  useEffect(() => {
+    if (!isHost || !currentPlayer) return;
+    loadWordHistory(currentPlayer.id).then(history => {
+      recentWordsRef.current = recentWords(history);
+    });
+  }, [isHost, currentPlayer?.id, room?.status]);
+
+  // Get a random word of a tier, from the room's custom list or its built-in
+  // topics (never repeats within a game, and avoids ones from earlier games)
+  const getRandomWord = useCallback((difficulty: Difficulty, settings: RoomSettings) =>
+    pickWord(roomWordPool(settings, difficulty), usedWordsRef.current, recentWordsRef.current), []);
 
   // Create a new room
   const createRoom = useCallback(async (playerName: string): Promise<string | null> => {
@@ -143,22 +320,18 @@ export const useMultiplayer = () => {
     }
 
     try {
-      const code = generateRoomCode();
-      const playerId = playerIdRef.current || generatePlayerId();
+      const playerId = playerIdRef.current || await getPlayerId();
       
-      const newRoom: Room = {
-        id: `room_${Date.now()}`,
-        code,
+      // Start from the settings this host used last time
+      const { settings, total_rounds } = await loadLastSettings();
+      
+      // Picks a free code (rooms.code is UNIQUE)
+      const newRoom = await insertRoom({
         host_id: playerId,
-        status: 'lobby',
-        settings: DEFAULT_SETTINGS,
-        current_round: 0,
-        total_rounds: 10,
-        current_word: null,
-        drawing_team: 1,
-        round_start_time: null,
-        created_at: new Date().toISOString(),
-      };
+        settings,
+        total_rounds,
+      });
+      const code = newRoom.code;
 
       const hostPlayer: Player = {
         id: playerId,
@@ -175,6 +348,7 @@ export const useMultiplayer = () => {
       setRoom(newRoom);
       setCurrentPlayer(hostPlayer);
       setPlayers([hostPlayer]);
+      await upsertPlayer(hostPlayer, newRoom.id);
       
       // Join realtime channel
       await joinChannel(code, hostPlayer);
@@ -190,22 +364,32 @@ export const useMultiplayer = () => {
   }, [setRoom, setCurrentPlayer, setPlayers, setError]);
 
   // Join an existing room
-  const joinRoom = useCallback(async (code: string, playerName: string): Promise<boolean> => {
+  const joinRoom = useCallback(async (code: string, playerName: string): Promise<JoinAnswer> => {
     if (!isSupabaseConfigured()) {
       setError('Supabase not configured. Please add credentials.');
-      return false;
+      return { accepted: false, reason: 'failed' };
     }
 
     try {
-      const playerId = playerIdRef.current || generatePlayerId();
+      const playerId = playerIdRef.current || await getPlayerId();
+      
+      // Fail fast on codes that don't exist
+      const existingRoom = await fetchRoomByCode(code.toUpperCase());
+      if (!existingRoom) {
+        setError('Room not found');
+        return { accepted: false, reason: 'wrong_code' };
+      }
+      
+      // Rejoining: pick up our team and score where we left off
+      const saved = await fetchPlayer(playerId, existingRoom.id);
       
       const newPlayer: Player = {
         id: playerId,
         name: playerName,
-        room_id: null, // Will be set when we receive room state
-        team: null,
-        is_drawing: false,
-        score: 0,
+        room_id: existingRoom.id,
+        team: saved?.team ?? null,
+        is_drawing: saved?.is_drawing ?? false,
+        score: saved?.score ?? 0,
         is_ready: false,
         is_host: false,
         connected_at: new Date().toISOString(),
@@ -213,28 +397,36 @@ export const useMultiplayer = () => {
 
       setCurrentPlayer(newPlayer);
       
-      // Join realtime channel
-      const success = await joinChannel(code.toUpperCase(), newPlayer);
+      // Join realtime channel (waits for the host to let us in)
+      const answer = await joinChannel(code.toUpperCase(), newPlayer);
+      if (!answer.accepted) {
+        setCurrentPlayer(null);
+        return answer;
+      }
+      
+      // Only admitted players get a row, so a rejected one can't come back as a "rejoin"
+      await upsertPlayer(newPlayer, existingRoom.id);
       
       // Save session for reconnection
-      if (success) {
-        await saveSession(code.toUpperCase(), playerName);
-      }
+      await saveSession(code.toUpperCase(), playerName);
       
-      return success;
+      return answer;
     } catch (err: any) {
       setError(err.message || 'Failed to join room');
-      return false;
+      return { accepted: false, reason: 'failed' };
     }
   }, [setCurrentPlayer, setError]);
 
   // Join realtime channel
-  const joinChannel = useCallback(async (roomCode: string, player: Player): Promise<boolean> => {
+  const joinChannel = useCallback(async (roomCode: string, player: Player): Promise<JoinAnswer> => {
     try {
-      // Clean up existing channel
+      // Clean up existing channels
       if (channelRef.current) {
         await supabase.removeChannel(channelRef.current);
       }
+      if (inboxRef.current) {
+        await supabase.removeChannel(inboxRef.current);
+      }
 
       const channel = supabase.channel(`room:${roomCode}`, {
         config: {
@@ -246,11 +438,13 @@ export const useMultiplayer = () => {
       // Handle presence sync (who's online)
       channel.on('presence', { event: 'sync' }, () => {
         const presenceState = channel.presenceState();
+        const bannedIds = useGameStore.getState().room?.banned_ids ?? [];
         const onlinePlayers: Player[] = [];
         
         Object.entries(presenceState).forEach(([key, value]) => {
           const presence = value[0] as any;
-          if (presence?.player) {
+          // Banned players that show up anyway don't count as in the room
+          if (presence?.player && !bannedIds.includes(key)) {
             onlinePlayers.push(presence.player);
           }
         });
@@ -261,23 +455,12 @@ export const useMultiplayer = () => {
       // Handle player join
       channel.on('presence', { event: 'join' }, ({ key, newPresences }) => {
         const presence = newPresences[0] as any;
-        if (presence?.player) {
+        if (presence?.player && !useGameStore.getState().room?.banned_ids.includes(key)) {
           addPlayer(presence.player);
           
           // Host: send current state to new player
-          const state = useGameStore.getState();
-          if (state.currentPlayer?.is_host && state.room) {
-            channel.send({
-              type: 'broadcast',
-              event: 'room_event',
-              payload: { 
-                type: 'sync_state', 
-                room: state.room,
-                players: state.players,
-                drawings: state.drawings,
-                target_player_id: presence.player.id,
-              },
-            });
+          if (useGameStore.getState().currentPlayer?.is_host) {
+            sendSyncState(presence.player.id);
           }
         }
       });
@@ -285,11 +468,19 @@ export const useMultiplayer = () => {
       // Handle player leave
       channel.on('presence', { event: 'leave' }, ({ key }) => {
         removePlayer(key);
+        
+        // Host is gone (not just one of their connections): elect a new one
+        const { room: currentRoom } = useGameStore.getState();
+        if (currentRoom && key === currentRoom.host_id && !channel.presenceState()[key]) {
+          takeOverAsHost(key);
+        }
       });
 
-      // Handle broadcast events
+      // Handle broadcast events (held back if we missed earlier host events)
       channel.on('broadcast', { event: 'room_event' }, ({ payload }) => {
-        handleRoomEvent(payload as RoomEvent, channel);
+        if (checkSequence(payload)) {
+          handleRoomEvent(payload as RoomEvent, channel);
+        }
       });
 
       // Handle drawing events (high frequency)
@@ -297,29 +488,100 @@ export const useMultiplayer = () => {
         handleDrawingEvent(payload as DrawingEvent);
       });
 
-      // Subscribe to channel
-      const status = await channel.subscribe(async (status) => {
-        if (status === 'SUBSCRIBED') {
-          // Track presence
-          await channel.track({ player });
-          setConnected(true);
-          
-          // If joining (not host), request current room state
-          if (!player.is_host) {
-            channel.send({
-              type: 'broadcast',
-              event: 'room_event',
-              payload: { type: 'request_state', player_id: player.id },
-            });
-          }
+      // Go live: show up in presence and catch up on the room
+      const enterRoom = async () => {
+        // Track presence
+        await channel.track({ player });
+        setConnected(true);
+        
+        // If joining (not host), request current room state
+        if (!player.is_host) {
+          channel.send({
+            type: 'broadcast',
+            event: 'room_event',
+            payload: { type: 'request_state', player_id: player.id },
+          });
+          syncClock();
+        }
+      };
+
+      // Everyone but the host has to be let in first (see admitPlayer)
+      let admitted = player.is_host;
+      const joinAnswer = admitted ? null : new Promise<JoinAnswer>(resolve => {
+        const timeout = setTimeout(() => {
+          joinAnswerRef.current = null;
+          resolve({ accepted: false, reason: 'no_response' });
+        }, JOIN_TIMEOUT_MS);
+        joinAnswerRef.current = answer => {
+          clearTimeout(timeout);
+          joinAnswerRef.current = null;
+          resolve(answer);
+        };
+      });
+
+      // Subscribe to channel (fires again after a reconnect)
+      channel.subscribe(async (status) => {
+        if (status !== 'SUBSCRIBED') return;
+        
+        if (admitted) {
+          await enterRoom();
+        } else {
+          channel.send({
+            type: 'broadcast',
+            event: 'room_event',
+            payload: { type: 'request_join', player_id: player.id },
+          });
         }
       });
 
+      // Private inbox for targeted messages (the secret word). Only the
+      // host may write to a player's inbox, but anyone in the room may write
+      // to the host's, so the host never takes a word from it.
+      const inbox = playerInbox(roomCode, player.id);
+      inbox.on('broadcast', { event: 'word_secret' }, ({ payload }) => {
+        if (!useGameStore.getState().currentPlayer?.is_host) {
+          handleWordSecret(payload as WordSecret);
+        }
+      });
+      // Drawer: words to pick from for the next round
+      inbox.on('broadcast', { event: 'word_choices' }, ({ payload }) => {
+        useGameStore.getState().setWordChoices(payload.candidates as WordCandidate[]);
+      });
+      // Host: the drawer's pick
+      inbox.on('broadcast', { event: 'word_chosen' }, ({ payload }) => {
+        settleWordChoice(payload.round, payload.word);
+      });
+      // Host: the drawer gives up on their word
+      inbox.on('broadcast', { event: 'skip_round' }, ({ payload }) => {
+        skipRound(payload.player_id, payload.round);
+      });
+      inbox.subscribe((status, err) => {
+        // Private: refused if we aren't signed in as this player
+        if (status === 'CHANNEL_ERROR') console.error('Failed to open inbox:', err);
+      });
+
       channelRef.current = channel;
-      return true;
+      inboxRef.current = inbox;
+      lastSeqRef.current = null;
+      seqHostRef.current = null;
+      lastDrawSeqRef.current = {};
+
+      if (joinAnswer) {
+        const answer = await joinAnswer;
+        if (!answer.accepted) {
+          await supabase.removeChannel(channel);
+          await supabase.removeChannel(inbox);
+          channelRef.current = null;
+          inboxRef.current = null;
+          return answer;
+        }
+        admitted = true;
+        await enterRoom();
+      }
+      return { accepted: true };
     } catch (err: any) {
       setError(err.message || 'Failed to connect');
-      return false;
+      return { accepted: false, reason: 'failed' };
     }
   }, [setPlayers, addPlayer, removePlayer, setConnected, setError]);
 
@@ -337,239 +599,280 @@ export const useMultiplayer = () => {
         removePlayer(event.player_id);
         break;
         
+      case 'player_kicked':
+      case 'player_banned':
+        if (event.type === 'player_banned' && state.room && !state.room.banned_ids.includes(event.player_id)) {
+          setRoom({ ...state.room, banned_ids: [...state.room.banned_ids, event.player_id] });
+        }
+        if (event.player_id === state.currentPlayer?.id) {
+          removeFromRoom(event.type === 'player_banned' ? 'banned' : 'kicked');
+        } else {
+          removePlayer(event.player_id);
+        }
+        break;
+        
+      case 'room_locked':
+        if (state.room) {
+          setRoom({ ...state.room, locked: !!event.locked });
+        }
+        break;
+        
       case 'player_ready':
         updatePlayer(event.player_id, { is_ready: event.is_ready });
         break;
         
+      case 'teams_assigned':
+        applyTeams(event.teams);
+        break;
+        
       case 'sync_state':
         // Received room state from host
         if (!event.target_player_id || event.target_player_id === state.currentPlayer?.id) {
+          // Everything up to event.seq is included in this snapshot
+          if (typeof event.seq === 'number') {
+            lastSeqRef.current = event.seq;
+            seqHostRef.current = event.seq_host ?? null;
+          }
+          resyncRequestedAtRef.current = null;
           setRoom(event.room);
           setPlayers(event.players);
+          // The snapshot never has the word: put ours back if we hold it
+          const pending = pendingSecretRef.current;
+          if (pending && event.room?.status === 'playing' && pending.round === event.room.current_round) {
+            dispatchGame({ type: 'word_assigned', round: pending.round, word: pending.word });
+          }
           if (event.drawings) {
-            event.drawings.forEach((d: DrawingPath) => addDrawing(d));
+            event.drawings.filter(isSupportedDrawing).forEach((d: DrawingPath) => addDrawing(d));
+          }
+          // The host may have only just reconnected itself: the saved strokes are the full canvas
+          if (event.room?.status === 'playing') {
+            replayStrokes(event.room.id, event.room.current_round);
           }
         }
         break;
         
       case 'request_state':
         // Host: respond with current state
-        if (state.currentPlayer?.is_host && state.room && channelRef.current) {
+        if (state.currentPlayer?.is_host && state.room) {
+          sendSyncState(event.player_id);
+        }
+        break;
+        
+      case 'request_join':
+        // Host: let them in or say why not
+        if (state.currentPlayer?.is_host && state.room) {
+          answerJoinRequest(event.player_id);
+        }
+        break;
+        
+      case 'join_answer':
+        if (event.player_id === state.currentPlayer?.id && joinAnswerRef.current) {
+          joinAnswerRef.current(event.accepted ? { accepted: true } : { accepted: false, reason: event.reason });
+        }
+        break;
+        
+      case 'request_resync': {
+        // Host: a client missed events after `since`
+        if (!state.currentPlayer?.is_host || !channelRef.current) break;
+        // `since` only means something in our own numbering
+        const missed = eventLogRef.current.filter(e => e.seq > event.since);
+        const ours = event.seq_host === state.currentPlayer.id && typeof event.since === 'number';
+        if (ours && missed.length > 0 && missed[0].seq === event.since + 1) {
+          // Still in the log: send only what they missed
           channelRef.current.send({
             type: 'broadcast',
             event: 'room_event',
-            payload: { 
-              type: 'sync_state', 
-              room: state.room,
-              players: state.players,
-              drawings: state.drawings,
-              target_player_id: event.player_id,
-            },
+            payload: { type: 'replay', events: missed, target_player_id: event.player_id },
           });
+        } else {
+          sendSyncState(event.player_id);
         }
         break;
+      }
+        
+      case 'replay':
+        if (event.target_player_id !== state.currentPlayer?.id) break;
+        resyncRequestedAtRef.current = null;
+        event.events.forEach((missed: any) => {
+          if (checkSequence(missed)) {
+            handleRoomEvent(missed, channel);
+          }
+        });
+        break;
         
       case 'game_started':
         useGameStore.getState().startGame();
         break;
         
-      case 'round_started':
-        // Clear all drawers first, then set the new drawer
-        state.players.forEach(p => {
-          if (p.is_drawing) {
-            updatePlayer(p.id, { is_drawing: false });
-          }
-        });
-        
-        // Set the new drawer
-        if (event.drawer_id) {
-          updatePlayer(event.drawer_id, { is_drawing: true });
-          // Update currentPlayer if it's us
-          if (state.currentPlayer && state.currentPlayer.id === event.drawer_id) {
-            setCurrentPlayer({ ...state.currentPlayer, is_drawing: true });
-          } else if (state.currentPlayer?.is_drawing && state.currentPlayer) {
-            setCurrentPlayer({ ...state.currentPlayer, is_drawing: false });
-          }
+      case 'word_choice_started':
+        // The round starts once the drawer has picked its word
+        if (state.room) {
+          setRoom({
+            ...state.room,
+            word_choice: { round: event.round, drawer_id: event.drawer_id, deadline: event.deadline },
+          });
         }
+        break;
+        
+      case 'round_started': {
+        // Engine assigns the drawer, round and (for the drawer only) the word
+        dispatchGame(event);
+        useGameStore.getState().setWordChoices([]);
         
         // Clear drawings, messages, and reset path tracking for new round
-        currentPathRef.current = null;
+        roundAwardsRef.current = [];
+        shownWordRef.current = null;
+        incomingStrokesRef.current = {};
         clearDrawings();
         clearMessages();
         
         // Add a system message about who's drawing
         const drawerName = state.players.find(p => p.id === event.drawer_id)?.name || 'Someone';
-        const teamName = event.drawing_team === 1 ? 'Blue' : 'Red';
+        const drawerLabel = state.room?.settings.mode === 'free_for_all'
+          ? drawerName
+          : `${drawerName} (Team ${getTeamInfo(event.drawing_team).name})`;
         addMessage({
           id: `msg_round_${Date.now()}`,
           room_id: state.room?.id || '',
           player_id: 'system',
           player_name: 'System',
-          text: `🎨 Round ${event.round}: ${drawerName} (Team ${teamName}) is drawing!`,
+          text: `🎨 Round ${event.round}: ${drawerLabel} is drawing!`,
           is_correct_guess: false,
           timestamp: new Date().toISOString(),
         });
         
-        // FIX: Only store the word if we are the drawer
-        const isDrawer = state.currentPlayer?.id === event.drawer_id;
-        const roundWord = isDrawer ? (event.word || null) : null;
-
-        setRoom(state.room ? { 
-          ...state.room, 
-          current_round: event.round, 
-          drawing_team: event.drawing_team,
-          current_word: roundWord,
-          round_start_time: new Date().toISOString(),
-          status: 'playing',
-          ...(event.total_rounds ? { total_rounds: event.total_rounds } : {}),
-        } : null);
+        const startedRoom = useGameStore.getState().room;
+        if (startedRoom) {
+          setRoom({
+            ...startedRoom,
+            word_hash: event.word_hash || null,
+            word_hint: event.word_pattern ?? null,
+            word_choice: null,
+            word_difficulty: event.word_difficulty ?? null,
+            round_start_time: event.round_start_time ?? null, // Guess scoring counts from here
+          });
+        }
+        
+        // Our word may have reached the inbox before the round did
+        const pending = pendingSecretRef.current;
+        if (pending && pending.round === event.round) {
+          dispatchGame({ type: 'word_assigned', round: pending.round, word: pending.word });
+        }
         break;
+      }
         
-      case 'new_word':
-        // Word selected by drawer, update room state (word is hidden from guessers)
-        if (state.room) {
-          // FIX: Only store the word if we are the drawer
-          if (state.currentPlayer?.is_drawing) {
-            setRoom({
-              ...state.room,
-              current_word: event.word,
-            });
-          }
+      case 'hint_revealed':
+        if (state.room?.word_hint && event.round === state.room.current_round) {
+          setRoom({
+            ...state.room,
+            word_hint: revealLetter(state.room.word_hint, event.index, event.letter),
+          });
         }
         break;
         
-      case 'tag_team':
-        state.players.forEach(p => {
-          updatePlayer(p.id, { is_drawing: p.id === event.new_drawer_id });
+      case 'word_revealed': {
+        const hash = state.room?.word_hash;
+        const checkReveal = hash ? verifyWordReveal(hash, event) : Promise.resolve(true);
+        checkReveal.then(valid => {
+          const latestState = useGameStore.getState();
+          // A correct guess already showed the word (not an alias of it)
+          const shown = shownWordRef.current !== null && normalizeGuess(shownWordRef.current) === normalizeGuess(event.word);
+          if (valid && shown) return;
+          addMessage({
+            id: `msg_reveal_${Date.now()}`,
+            room_id: latestState.room?.id || '',
+            player_id: 'system',
+            player_name: 'System',
+            text: valid
+              ? `🔓 The word was "${event.word}"`
+              : `⚠️ Revealed word "${event.word}" doesn't match this round's word`,
+            is_correct_guess: false,
+            timestamp: new Date().toISOString(),
+          });
         });
         break;
+      }
         
-      case 'correct_guess': {
-        // Always use latest state and numeric points so scores increment correctly
-        const latestState = useGameStore.getState();
-        const guesserPoints = Number(event.guesser_points) || Number(event.points) || 0;
-        const drawerPoints = Number(event.drawer_points) || 0;
-
-        const guesser = latestState.players.find(p => p.id === event.player_id);
-        if (guesser && guesserPoints > 0) {
-          const newGuesserScore = guesser.score + guesserPoints;
-          updatePlayer(guesser.id, { score: newGuesserScore });
-          if (latestState.currentPlayer?.id === guesser.id) {
-            setCurrentPlayer({ ...latestState.currentPlayer, score: newGuesserScore });
-          }
+      case 'host_changed':
+        updatePlayer(event.previous_host_id, { is_host: false });
+        updatePlayer(event.host_id, { is_host: true });
+        if (state.room) {
+          // Deadline is restated in the new host's clock
+          setRoom({ ...state.room, host_id: event.host_id, round_deadline: event.round_deadline });
         }
-
-        const drawer = event.drawer_id ? latestState.players.find(p => p.id === event.drawer_id) : null;
-        if (drawer && drawerPoints > 0) {
-          const newDrawerScore = drawer.score + drawerPoints;
-          updatePlayer(drawer.id, { score: newDrawerScore });
-          if (latestState.currentPlayer?.id === drawer.id) {
-            setCurrentPlayer({ ...latestState.currentPlayer, score: newDrawerScore });
+        // We were voted out while away (e.g. phone was locked)
+        if (state.currentPlayer && state.currentPlayer.id !== event.host_id && state.currentPlayer.is_host) {
+          setCurrentPlayer({ ...state.currentPlayer, is_host: false });
+          secretRef.current = null;
+        }
+        if (state.currentPlayer && state.currentPlayer.id !== event.host_id) {
+          syncClock();
+        }
+        break;
+        
+      case 'settings_changed':
+        // Host edited the lobby settings; ranges are checked again on our side
+        if (state.room && state.room.status === 'lobby') {
+          const { settings, total_rounds } = validateSettings(event);
+          setRoom({ ...state.room, settings, total_rounds });
+        }
+        break;
+        
+      case 'clock_ping':
+        // Host: stamp our time and send it straight back
+        if (state.currentPlayer?.is_host && channelRef.current) {
+          channelRef.current.send({
+            type: 'broadcast',
+            event: 'room_event',
+            payload: { type: 'clock_pong', t0: event.t0, t1: Date.now(), target_player_id: event.player_id },
+          });
+        }
+        break;
+        
+      case 'clock_pong':
+        if (event.target_player_id === state.currentPlayer?.id && !state.currentPlayer?.is_host) {
+          clockSamplesRef.current.push(sampleClock(event.t0, event.t1, Date.now()));
+          const best = bestClockSample(clockSamplesRef.current);
+          if (best) {
+            clockOffsetRef.current = best.offset;
           }
         }
-
-        // Mark message as correct guess; use word from event so all clients see it
-        const revealedWord = event.word || latestState.room?.current_word || '???';
-
-        addMessage({
-          id: `msg_${Date.now()}`,
-          room_id: latestState.room?.id || '',
-          player_id: event.player_id,
-          player_name: event.player_name,
-          text: `🎉 Correct! The word was "${revealedWord}"`,
-          is_correct_guess: true,
-          timestamp: new Date().toISOString(),
+        break;
+        
+      case 'tag_team':
+        state.players.forEach(p => {
+          updatePlayer(p.id, { is_drawing: p.id === event.new_drawer_id });
         });
-
-        // Host triggers new round after a short delay
-        if (latestState.currentPlayer?.is_host) {
-          setTimeout(() => {
-            channelRef.current?.send({
-              type: 'broadcast',
-              event: 'room_event',
-              payload: { type: 'round_ended', round: latestState.room?.current_round },
-            });
-          }, 2000);
-        }
         break;
-      }
         
       case 'round_ended':
-        if (state.room) {
-          const nextRound = state.room.current_round + 1;
-          const nextDrawingTeam = state.room.drawing_team === 1 ? 2 : 1;
-          
-          // Clear current drawer's status
-          state.players.forEach(p => {
-            if (p.is_drawing) {
-              updatePlayer(p.id, { is_drawing: false });
-            }
-          });
+        if (!isFromHost(event, state.room)) break;
+        if (event.result) {
+          useGameStore.getState().addRoundResult(event.result);
+        }
+        // Engine rotates the drawing team; host ends the game or starts the next round
+        if (dispatchGame(event)) {
+          // Host reveals the word so everyone can check it against the hash
+          const secret = secretRef.current;
+          if (state.currentPlayer?.is_host && secret && secret.round === state.room?.current_round) {
+            sendEvent({ type: 'word_revealed', round: secret.round, word: secret.word, salt: secret.salt });
+            secretRef.current = null;
+          }
+          if (state.currentPlayer?.is_host && state.room) {
+            clearRoundWord(state.room.id).catch(e => console.error('Failed to clear round word:', e));
+          }
+          pendingSecretRef.current = null;
           
           // Clear drawings and reset path tracking
-          currentPathRef.current = null;
+          incomingStrokesRef.current = {};
           clearDrawings();
-          
-          // Update room state
-          setRoom({
-            ...state.room,
-            current_round: nextRound,
-            drawing_team: nextDrawingTeam,
-            current_word: null,
-            round_start_time: null,
-          });
-          
-          // Check if game should end
-          if (nextRound > state.room.total_rounds) {
-            channelRef.current?.send({
-              type: 'broadcast',
-              event: 'room_event',
-              payload: { type: 'game_ended' },
-            });
-            return;
-          }
-          
-          // Host starts the next round after a brief pause
-          if (state.currentPlayer?.is_host) {
-            setTimeout(() => {
-              // Get players from next drawing team
-              const nextTeamPlayers = state.players
-                .filter(p => p.team === nextDrawingTeam)
-                .sort((a, b) => a.id.localeCompare(b.id)); // Sort by ID for deterministic order
-
-              if (nextTeamPlayers.length > 0) {
-                // Drawer rotates through the team (round-robin), not random
-                const playerIndex = Math.floor((nextRound - 1) / 2) % nextTeamPlayers.length;
-                const nextDrawer = nextTeamPlayers[playerIndex];
-                
-                // Pick a word that hasn't been used yet
-                const difficulty = state.room?.settings.difficulty || 'medium';
-                const wordList = WORDS[difficulty];
-                const availableWords = wordList.filter(w => !usedWordsRef.current.has(w));
-                const newWord = availableWords.length > 0
-                  ? availableWords[Math.floor(Math.random() * availableWords.length)]
-                  : wordList[Math.floor(Math.random() * wordList.length)];
-                usedWordsRef.current.add(newWord);
-                
-                channelRef.current?.send({
-                  type: 'broadcast',
-                  event: 'room_event',
-                  payload: { 
-                    type: 'round_started', 
-                    round: nextRound, 
-                    drawing_team: nextDrawingTeam,
-                    drawer_id: nextDrawer.id,
-                    word: newWord,
-                  },
-                });
-              }
-            }, 1500);
-          }
         }
         break;
         
       case 'game_ended':
-        useGameStore.getState().endGame();
+        if (isFromHost(event, state.room)) {
+          dispatchGame(event);
+        }
         break;
         
       case 'game_reset':
@@ -591,18 +894,22 @@ export const useMultiplayer = () => {
         }
         clearDrawings();
         clearMessages();
-        usedWordsRef.current.clear(); // Reset word tracking for new game
+        useGameStore.getState().clearRoundResults();
+        // The host keeps its word tracking (resetForNewGame), so no repeats
+        // in the same session; it hears its own reset too (self: true)
+        if (!state.currentPlayer?.is_host) usedWordsRef.current.clear();
         setRoom(event.room);
         break;
         
       case 'word_skipped':
-        // Show skip message to all players
+        // The host ends the round next and reveals the word
+        if (!isFromHost(event, state.room)) break;
         addMessage({
           id: `msg_skip_${Date.now()}`,
           room_id: state.room?.id || '',
           player_id: 'system',
           player_name: 'System',
-          text: `⏭️ Word skipped! It was "${event.word || state.room?.current_word}"`,
+          text: '⏭️ Word skipped!',
           is_correct_guess: false,
           timestamp: new Date().toISOString(),
         });
@@ -613,44 +920,6 @@ export const useMultiplayer = () => {
         if (event.message.player_id !== state.currentPlayer?.id) {
           addMessage(event.message);
         }
-        
-        // Check if this is a correct guess (FIX: Only DRAWER validates)
-        // Only the drawer knows the word and can validate
-        if (state.currentPlayer?.is_drawing && state.room?.current_word) {
-          // Find the player who sent the message
-          const guessingPlayer = state.players.find(p => p.id === event.message.player_id);
-          
-          // Only players on the DRAWING team can guess (Pictionary rules)
-          // The drawer's teammates guess, not the other team
-          if (guessingPlayer?.team !== state.room.drawing_team) {
-            // Wrong team trying to guess - ignore
-            break;
-          }
-          
-          const guess = event.message.text.toLowerCase().trim();
-          const word = state.room.current_word.toLowerCase().trim();
-          
-          if (guess === word) {
-            // Correct guess! Award points to both guesser and drawer
-            const guesserPoints = 1;
-            const drawerPoints = 1;
-            const currentDrawer = state.players.find(p => p.is_drawing);
-            
-            channelRef.current?.send({
-              type: 'broadcast',
-              event: 'room_event',
-              payload: { 
-                type: 'correct_guess', 
-                player_id: event.message.player_id,
-                player_name: event.message.player_name,
-                guesser_points: guesserPoints,
-                drawer_id: currentDrawer?.id,
-                drawer_points: drawerPoints,
-                word: word, // Send word so everyone can see it
-              },
-            });
-          }
-        }
         break;
     }
   }, [addPlayer, removePlayer, updatePlayer, setRoom, setCurrentPlayer, clearDrawings, clearMessages, addMessage, addDrawing]);
@@ -661,72 +930,684 @@ export const useMultiplayer = () => {
     
     // Don't process own events (we handle those locally)
     if (event.player_id === state.currentPlayer?.id) return;
+    if (state.room?.banned_ids.includes(event.player_id)) return;
+    // Coordinates from another protocol version would land in the wrong place
+    if (!isSupportedDrawing(event)) return;
+    
+    // Drawing is lossy: keep going, but get the full picture from the host
+    if (typeof event.seq === 'number') {
+      const last = lastDrawSeqRef.current[event.player_id];
+      if (last !== undefined && event.seq > last + 1) {
+        requestResync();
+      }
+      lastDrawSeqRef.current[event.player_id] = event.seq;
+    }
     
     switch (event.type) {
       case 'start':
-        // Start a new path
+        // Start a new path; style only comes with the start
         const newPath: DrawingPath = {
-          id: `path_${event.player_id}_${event.timestamp}`,
-          points: [{ x: event.x!, y: event.y! }],
+          v: event.v,
+          id: event.stroke_id,
+          points: [{ x: event.x, y: event.y }],
           color: event.color,
           brushSize: event.brushSize,
           player_id: event.player_id,
         };
-        currentPathRef.current = newPath;
+        incomingStrokesRef.current[event.stroke_id] = {
+          assembly: createStrokeAssembly({ x: event.x, y: event.y }),
+          batches: null,
+        };
         addDrawing(newPath);
         break;
         
-      case 'move':
-        // Add point to current path
-        if (currentPathRef.current && event.x !== undefined && event.y !== undefined) {
-          const updatedPath = {
-            ...currentPathRef.current,
-            points: [...currentPathRef.current.points, { x: event.x, y: event.y }],
-          };
-          currentPathRef.current = updatedPath;
-          updateDrawing(currentPathRef.current.id, updatedPath);
+      case 'points': {
+        // Batches are applied in order; early ones wait for the gap to fill
+        const stroke = incomingStrokesRef.current[event.stroke_id];
+        const path = state.drawings.find(d => d.id === event.stroke_id);
+        if (!stroke || !path) break;
+        
+        const { assembly, points } = receiveBatch(stroke.assembly, event.batch, event.d);
+        stroke.assembly = assembly;
+        if (points.length > 0) {
+          updateDrawing(path.id, { ...path, points: [...path.points, ...points] });
         }
+        finishStrokeIfComplete(event.stroke_id);
         break;
+      }
         
-      case 'end':
-        // Finalize the path
-        currentPathRef.current = null;
+      case 'end': {
+        // Batches can still arrive after the end; keep the stroke open until they do
+        const stroke = incomingStrokesRef.current[event.stroke_id];
+        if (stroke) {
+          stroke.batches = event.batches;
+          finishStrokeIfComplete(event.stroke_id);
+        }
         break;
+      }
         
       case 'clear':
-        currentPathRef.current = null; // Reset path tracking
+        incomingStrokesRef.current = {}; // Reset path tracking
         clearDrawings();
         break;
         
       case 'undo':
-        undoLastDrawing();
+        delete incomingStrokesRef.current[event.stroke_id];
+        removeDrawing(event.stroke_id);
         break;
     }
-  }, [addDrawing, updateDrawing, clearDrawings, undoLastDrawing]);
+  }, [addDrawing, updateDrawing, clearDrawings, removeDrawing]);
+
+  // Load the round's saved strokes, keeping anything drawn since in front
+  const replayStrokes = useCallback(async (roomId: string, round: number) => {
+    try {
+      const saved = (await fetchStrokes(roomId, round)).filter(isSupportedDrawing);
+      const { room: latestRoom, drawings: current } = useGameStore.getState();
+      if (latestRoom?.id !== roomId || latestRoom.current_round !== round) return; // Round moved on
+      
+      const savedIds = new Set(saved.map(d => d.id));
+      setDrawings([...saved, ...current.filter(d => !savedIds.has(d.id))]);
+    } catch (e) {
+      console.error('Failed to replay strokes:', e);
+    }
+  }, [setDrawings]);
+
+  // Stop tracking a stroke once its end and every batch are in
+  const finishStrokeIfComplete = useCallback((strokeId: string) => {
+    const stroke = incomingStrokesRef.current[strokeId];
+    if (stroke && stroke.batches !== null && stroke.assembly.nextBatch >= stroke.batches) {
+      delete incomingStrokesRef.current[strokeId];
+    }
+  }, []);
 
-  // Send a room event
+  // Send a room event. Host events are numbered so clients can tell when
+  // they missed one; each host numbers from 1, so seq_host says whose count
+  // it is.
   const sendEvent = useCallback((event: Record<string, any>) => {
     if (!channelRef.current) return;
     
+    let payload = event;
+    const me = useGameStore.getState().currentPlayer;
+    if (me?.is_host) {
+      payload = { ...event, seq: ++sentSeqRef.current, seq_host: me.id };
+      eventLogRef.current = [...eventLogRef.current, payload].slice(-EVENT_LOG_SIZE);
+    }
+    
     channelRef.current.send({
       type: 'broadcast',
       event: 'room_event',
-      payload: event,
+      payload,
     });
   }, []);
 
-  // Send drawing data
-  const sendDrawing = useCallback((event: Omit<DrawingEvent, 'player_id'>) => {
-    if (!channelRef.current || !currentPlayer) return;
+  // Host: reveal one more letter of the word, unless the round has moved on
+  const revealHint = useCallback((round: number) => {
+    const { room: currentRoom } = useGameStore.getState();
+    const secret = secretRef.current;
+    if (!currentRoom || currentRoom.status !== 'playing' || currentRoom.current_round !== round) return;
+    if (!secret || secret.round !== round || !currentRoom.word_hint || currentRoom.round_deadline === null) return;
+
+    const index = pickHintIndex(secret.word, currentRoom.word_hint);
+    if (index === null) return;
+    sendEvent({ type: 'hint_revealed', round, index, letter: secret.word[index] });
+  }, [sendEvent]);
+
+  // Host: full snapshot for one player (joining, or too far behind to replay)
+  const sendSyncState = useCallback((targetPlayerId: string) => {
+    const state = useGameStore.getState();
+    if (!channelRef.current || !state.room || !state.currentPlayer) return;
+    
+    channelRef.current.send({
+      type: 'broadcast',
+      event: 'room_event',
+      payload: { 
+        type: 'sync_state', 
+        room: { ...state.room, current_word: null }, // Never sync the plaintext word
+        players: state.players,
+        drawings: state.drawings,
+        target_player_id: targetPlayerId,
+        seq: sentSeqRef.current,
+        seq_host: state.currentPlayer.id,
+      },
+    });
+    
+    // A drawer needs their word again (or their words to pick from)
+    const drawer = state.players.find(p => p.is_drawing);
+    if (drawer && drawer.id === targetPlayerId && secretRef.current?.round === state.room.current_round) {
+      deliverSecret(drawer.id, secretRef.current);
+    }
+    const choice = wordChoiceRef.current;
+    if (choice && choice.start.drawer_id === targetPlayerId) {
+      deliverWordChoices(choice.start.drawer_id, choice.candidates);
+    }
+  }, []);
+
+  // Host time, as estimated from our clock pings
+  const getSyncedNow = useCallback((): number => Date.now() + clockOffsetRef.current, []);
+
+  // Host: reveal letters at the round's hint times still to come (all of
+  // them for a new round; after a takeover, the ones the old host didn't reach)
+  const scheduleHints = useCallback((round: number, deadline: number) => {
+    const currentRoom = useGameStore.getState().room;
+    if (!currentRoom) return;
+    const timerMs = currentRoom.settings.timer_seconds * 1000;
+    const elapsedMs = getSyncedNow() - (deadline - timerMs);
+    hintTimes(timerMs, currentRoom.settings.hint_count)
+      .filter(atMs => atMs > elapsedMs)
+      .forEach(atMs => setTimeout(() => revealHint(round), atMs - elapsedMs));
+  }, [getSyncedNow, revealHint]);
+
+  // Estimate our clock offset to the host with a few NTP-style pings
+  const syncClock = useCallback(() => {
+    clockSamplesRef.current = [];
+    for (let i = 0; i < CLOCK_PING_COUNT; i++) {
+      setTimeout(() => {
+        const me = useGameStore.getState().currentPlayer;
+        if (!channelRef.current || !me || me.is_host) return;
+        channelRef.current.send({
+          type: 'broadcast',
+          event: 'room_event',
+          payload: { type: 'clock_ping', t0: Date.now(), player_id: me.id },
+        });
+      }, i * CLOCK_PING_INTERVAL_MS);
+    }
+  }, []);
+
+  // Ask the host for whatever we missed since the last event we handled
+  const requestResync = useCallback(() => {
+    const me = useGameStore.getState().currentPlayer;
+    const requestedAt = resyncRequestedAtRef.current;
+    if (!channelRef.current || !me) return;
+    if (requestedAt && Date.now() - requestedAt < RESYNC_RETRY_MS) return; // Still waiting
+    
+    resyncRequestedAtRef.current = Date.now();
+    channelRef.current.send({
+      type: 'broadcast',
+      event: 'room_event',
+      payload: { type: 'request_resync', player_id: me.id, since: lastSeqRef.current, seq_host: seqHostRef.current },
+    });
+  }, []);
+
+  // Whether a room event can be handled now. Events without a seq aren't
+  // from the host. A gap means we missed some: hold this one back and ask
+  // for a replay (which includes it).
+  const checkSequence = useCallback((event: any): boolean => {
+    if (typeof event.seq !== 'number') return true;
+    
+    // A new host counts from 1 again
+    if (seqHostRef.current !== null && event.seq_host !== seqHostRef.current) {
+      lastSeqRef.current = 0;
+    }
+    const last = lastSeqRef.current;
+    if (last === null || event.seq === last + 1) {
+      lastSeqRef.current = event.seq;
+      seqHostRef.current = event.seq_host ?? null;
+      return true;
+    }
+    if (event.seq > last) {
+      requestResync();
+    }
+    return false; // Already handled, or waiting on the replay
+  }, [requestResync]);
+
+  // Host: answer a join request. Past the lobby, or once the room is locked,
+  // only players who already had a seat (a row in this room) may come back.
+  const answerJoinRequest = useCallback(async (playerId: string) => {
+    const { room: currentRoom } = useGameStore.getState();
+    if (!currentRoom || !channelRef.current) return;
+
+    const seat = currentRoom.status === 'lobby' && !currentRoom.locked
+      ? null
+      : await fetchPlayer(playerId, currentRoom.id).catch(e => {
+          console.error('Failed to look up player:', e);
+          return null;
+        });
+    if (!channelRef.current) return;
+
+    const online = Object.keys(channelRef.current.presenceState());
+    const answer = admitPlayer(currentRoom, online, playerId, !!seat);
+    channelRef.current.send({
+      type: 'broadcast',
+      event: 'room_event',
+      payload: { type: 'join_answer', player_id: playerId, ...answer },
+    });
+  }, []);
+
+  // Host: write the room and everyone's score through to the database
+  const persistRoomState = useCallback(() => {
+    const { room: currentRoom, players: currentPlayers, currentPlayer: me } = useGameStore.getState();
+    if (!currentRoom || !me?.is_host) return;
+
+    updateRoom(currentRoom).catch(e => console.error('Failed to save room:', e));
+    updatePlayers(currentPlayers, currentRoom.id).catch(e => console.error('Failed to save players:', e));
+  }, []);
+
+  // Host: start a round with its word. The server has the word before
+  // anyone can guess it, guessers only get its hash and shape, the drawer
+  // gets the word itself.
+  const beginRound = useCallback((start: RoundStart, candidate: WordCandidate) => {
+    const { room: currentRoom } = useGameStore.getState();
+    if (!currentRoom) return;
+
+    const secret = createWordSecret(start.round, candidate.word);
+    secretRef.current = secret;
+    const storeWord = async (): Promise<string> => {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await setRoundWord(currentRoom.id, start.round, start.drawing_team, start.drawer_id, secret.word, aliasesFor(secret.word));
+        } catch (e) {
+          if (attempt >= SET_WORD_ATTEMPTS) throw e;
+          await new Promise(resolve => setTimeout(resolve, SET_WORD_RETRY_MS * attempt));
+        }
+      }
+    };
+    Promise.all([hashWordSecret(secret), storeWord()]).then(([word_hash, round_start_time]) => {
+      recentWordsRef.current.add(candidate.word);
+      recordPlayedWord(currentRoom.host_id, candidate.word)
+        .catch(e => console.error('Failed to save word history:', e));
+      // Deadline in our (host) clock; every client counts down to the same instant
+      const deadline = getSyncedNow() + currentRoom.settings.timer_seconds * 1000;
+      sendEvent({
+        ...start,
+        type: 'round_started',
+        word_hash,
+        deadline,
+        round_start_time,
+        word_pattern: wordPattern(secret.word),
+        word_difficulty: offersMixedWords(currentRoom.settings) ? candidate.difficulty : null,
+      });
+      deliverSecret(start.drawer_id, secret);
+      // Letters for the guessers as the clock runs down
+      scheduleHints(start.round, deadline);
+    }).catch(e => {
+      // Without the word on the server nobody could guess it, so the round
+      // doesn't start; the same drawer gets another go in a moment
+      console.error('Failed to set round word:', e);
+      if (secretRef.current === secret) secretRef.current = null;
+      usedWordsRef.current.delete(candidate.word);
+      setError(`Couldn't start round ${start.round}: the server didn't get its word. Trying again...`);
+      setTimeout(() => {
+        const { room: latestRoom, currentPlayer: me } = useGameStore.getState();
+        if (me?.is_host && latestRoom?.status === 'playing' && latestRoom.current_round === start.round) {
+          setError(null);
+          dispatchGame({ type: 'start_round' });
+        }
+      }, ROUND_RETRY_MS);
+    });
+  }, [sendEvent, getSyncedNow, scheduleHints, setError]);
+
+  // Host: send the drawer the words to pick from
+  const deliverWordChoices = useCallback((playerId: string, candidates: WordCandidate[]) => {
+    const { room: currentRoom, currentPlayer: me } = useGameStore.getState();
+    if (playerId === me?.id) {
+      useGameStore.getState().setWordChoices(candidates);
+    } else if (currentRoom) {
+      sendToPlayer(currentRoom.code, playerId, 'word_choices', { candidates })
+        .catch(e => console.error('Failed to send word choices:', e));
+    }
+  }, []);
+
+  // Host: the drawer picked (or ran out of time), so the round can start
+  const settleWordChoice = useCallback((round: number, word: string) => {
+    const choice = wordChoiceRef.current;
+    const candidate = choice?.start.round === round ? choice.candidates.find(c => c.word === word) : undefined;
+    if (!choice || !candidate) return; // Not one we offered, or for an old round
+
+    clearTimeout(choice.timer);
+    wordChoiceRef.current = null;
+    // The ones left over can come up again later
+    choice.candidates.filter(c => c !== candidate).forEach(c => usedWordsRef.current.delete(c.word));
+    beginRound(choice.start, candidate);
+  }, [beginRound]);
+
+  // Host: offer the drawer some words, or start right away if there's just one
+  const offerWordChoice = useCallback((start: RoundStart) => {
+    const { room: currentRoom } = useGameStore.getState();
+    if (!currentRoom) return;
+
+    const candidates: WordCandidate[] = candidateDifficulties(currentRoom.settings)
+      .map(difficulty => {
+        const { word, difficulty: tier } = getRandomWord(difficulty, currentRoom.settings);
+        return { word, difficulty: tier };
+      });
+    if (candidates.length === 1) {
+      beginRound(start, candidates[0]);
+      return;
+    }
+
+    if (wordChoiceRef.current) clearTimeout(wordChoiceRef.current.timer);
+    const autoPick = candidates[Math.floor(Math.random() * candidates.length)];
+    const timer = setTimeout(() => settleWordChoice(start.round, autoPick.word), WORD_CHOICE_MS + WORD_CHOICE_GRACE_MS);
+    wordChoiceRef.current = { start, candidates, timer };
+
+    sendEvent({ type: 'word_choice_started', round: start.round, drawer_id: start.drawer_id, deadline: getSyncedNow() + WORD_CHOICE_MS });
+    deliverWordChoices(start.drawer_id, candidates);
+  }, [getRandomWord, beginRound, settleWordChoice, sendEvent, getSyncedNow, deliverWordChoices]);
+
+  // Run a game event through the rules engine and carry out its effects.
+  // Returns false when the engine ignored the event.
+  const dispatchGame = useCallback((event: GameEvent): boolean => {
+    const { room: currentRoom, players: currentPlayers, messages: currentMessages, currentPlayer: me } = useGameStore.getState();
+    if (!currentRoom) return false;
+
+    const before = toEngineState(currentRoom, currentPlayers, currentMessages);
+    const { state: game, effects } = reduceGame(before, event, {
+      playerId: me?.id ?? null,
+      isHost: me?.is_host ?? false,
+    });
+    if (game !== before) {
+      commitEngineState(game);
+      persistRoomState();
+    }
+
+    effects.forEach(effect => {
+      switch (effect.type) {
+        case 'broadcast':
+          if (effect.event.type === 'round_ended') {
+            // What the round paid out goes along with its end
+            const result = summarizeRound(
+              currentRoom.current_round,
+              secretRef.current?.word ?? '',
+              currentRoom.drawing_team,
+              roundAwardsRef.current
+            );
+            sendEvent({ ...effect.event, result });
+          } else {
+            sendEvent(effect.event);
+          }
+          break;
+        case 'start_round':
+          // Words that haven't been used yet; the round starts once the drawer has one
+          offerWordChoice(effect);
+          break;
+        case 'schedule':
+          setTimeout(() => dispatchGame(withTime(effect.event, getSyncedNow())), effect.delayMs);
+          break;
+      }
+    });
+
+    return game !== before || effects.length > 0;
+  }, [sendEvent, persistRoomState, offerWordChoice, getSyncedNow]);
+
+  // The host dropped and we were elected: claim the room, then pick up
+  // whatever the old host was about to do
+  const takeOverAsHost = useCallback(async (oldHostId: string) => {
+    const { room: currentRoom, players: currentPlayers, currentPlayer: me } = useGameStore.getState();
+    if (!currentRoom || !me || me.is_host || currentRoom.host_id !== oldHostId) return;
+    
+    const newHost = electHost(currentPlayers.filter(p => p.id !== oldHostId));
+    if (newHost?.id !== me.id) return;
+    
+    // The server only hands the room over once the old host has stopped
+    // checking in, so keep asking while they stay away (someone else
+    // claiming it shows up as host_changed and stops this)
+    let claimed = false;
+    try {
+      claimed = await transferHost(currentRoom.id, oldHostId);
+    } catch (e) {
+      console.error('Failed to claim host:', e);
+    }
+    if (!claimed) {
+      setTimeout(() => {
+        if (!channelRef.current?.presenceState()[oldHostId]) {
+          takeOverAsHost(oldHostId);
+        }
+      }, HOST_CLAIM_RETRY_MS);
+      return;
+    }
+    
+    // Our events are numbered afresh (see sendEvent)
+    sentSeqRef.current = 0;
+    eventLogRef.current = [];
+    
+    // Our clock is the reference now: restate the deadline in it
+    const roundDeadline = currentRoom.round_deadline !== null
+      ? currentRoom.round_deadline - clockOffsetRef.current
+      : null;
+    clockOffsetRef.current = 0;
+    
+    const promoted = { ...me, is_host: true };
+    setCurrentPlayer(promoted);
+    updatePlayer(me.id, { is_host: true });
+    setRoom({ ...currentRoom, host_id: me.id, round_deadline: roundDeadline });
+    channelRef.current?.track({ player: promoted });
+    sendEvent({ type: 'host_changed', host_id: me.id, previous_host_id: oldHostId, round_deadline: roundDeadline });
+    persistRoomState();
+    
+    // Scores and round already live in every client's store; only the
+    // old host's pending timers are lost. The round timer restarts on its
+    // own once is_host flips (App.multiplayer.tsx).
+    const { room: latestRoom, players: latestPlayers, messages: latestMessages } = useGameStore.getState();
+    if (latestRoom?.status !== 'playing') return;
+    if (!latestPlayers.some(p => p.is_drawing)) {
+      // Between rounds, or the old host was the drawer: (re)start the round
+      dispatchGame({ type: 'start_round' });
+      return;
+    }
+    // The letters still to come; we only know the word if we're drawing it
+    const round = latestRoom.current_round;
+    if (pendingSecretRef.current?.round === round) secretRef.current = pendingSecretRef.current;
+    if (roundDeadline !== null) scheduleHints(round, roundDeadline);
+    if (latestRoom.settings.mode !== 'free_for_all' && latestMessages.some(m => m.is_correct_guess)) {
+      // Guessed, but the round was never ended (free-for-all rounds run
+      // until the clock ends them)
+      setTimeout(() => dispatchGame({ type: 'end_round', round, now: getSyncedNow() }), RESULT_DELAY_MS);
+    }
+  }, [setCurrentPlayer, updatePlayer, setRoom, sendEvent, persistRoomState, dispatchGame, getSyncedNow, scheduleHints]);
+
+  // Secret word from the host: we're the drawer (the host itself draws
+  // with the word it picked, see deliverSecret)
+  const handleWordSecret = useCallback((secret: WordSecret) => {
+    if (useGameStore.getState().currentPlayer?.is_host) {
+      secretRef.current = secret;
+    }
+    pendingSecretRef.current = secret;
+    dispatchGame({ type: 'word_assigned', round: secret.round, word: secret.word });
+  }, [dispatchGame]);
+
+  // Send the plaintext word to one player only
+  const deliverSecret = useCallback((playerId: string, secret: WordSecret) => {
+    const { room: currentRoom, currentPlayer: me } = useGameStore.getState();
+    if (playerId === me?.id) {
+      handleWordSecret(secret);
+    } else if (currentRoom) {
+      sendToPlayer(currentRoom.code, playerId, 'word_secret', secret);
+    }
+  }, [handleWordSecret]);
+
+  // Send one drawing message on the wire
+  const sendDrawingMessage = useCallback((message: Record<string, any>) => {
+    const me = useGameStore.getState().currentPlayer;
+    if (!channelRef.current || !me) return;
     
     channelRef.current.send({
       type: 'broadcast',
       event: 'drawing',
-      payload: { ...event, player_id: currentPlayer.id },
+      payload: {
+        ...message,
+        v: DRAWING_PROTOCOL_VERSION,
+        player_id: me.id,
+        timestamp: Date.now(),
+        seq: ++drawSeqRef.current,
+      },
     });
-  }, [currentPlayer]);
+  }, []);
 
-  // Send chat message (also checks for correct guess)
+  // Send the points buffered since the last batch
+  const flushStroke = useCallback(() => {
+    const stroke = outgoingStrokeRef.current;
+    if (!stroke) return;
+    if (stroke.timer) {
+      clearTimeout(stroke.timer);
+      stroke.timer = null;
+    }
+    if (stroke.buffer.length === 0) return;
+    
+    sendDrawingMessage({
+      type: 'points',
+      stroke_id: stroke.path.id,
+      batch: stroke.batches,
+      d: encodeDeltas(stroke.buffer, stroke.last),
+    });
+    stroke.last = stroke.buffer[stroke.buffer.length - 1];
+    stroke.buffer = [];
+    stroke.batches++;
+  }, [sendDrawingMessage]);
+
+  // Send drawing data. Touch moves are batched every STROKE_BATCH_MS
+  // instead of going out one message per point.
+  const sendDrawing = useCallback((input: DrawingInput) => {
+    switch (input.type) {
+      case 'start': {
+        const me = useGameStore.getState().currentPlayer;
+        if (!me || !input.stroke_id || input.x === undefined || input.y === undefined) return;
+        flushStroke();
+        const start = { x: input.x, y: input.y };
+        outgoingStrokeRef.current = {
+          path: {
+            v: DRAWING_PROTOCOL_VERSION,
+            id: input.stroke_id,
+            points: [start],
+            color: input.color,
+            brushSize: input.brushSize,
+            player_id: me.id,
+          },
+          last: start,
+          buffer: [],
+          batches: 0,
+          timer: null,
+        };
+        sendDrawingMessage({
+          type: 'start',
+          stroke_id: input.stroke_id,
+          ...start,
+          color: input.color,
+          brushSize: input.brushSize,
+        });
+        break;
+      }
+        
+      case 'move': {
+        const stroke = outgoingStrokeRef.current;
+        if (!stroke || input.x === undefined || input.y === undefined) return;
+        stroke.buffer.push({ x: input.x, y: input.y });
+        stroke.path.points.push({ x: input.x, y: input.y });
+        if (!stroke.timer) {
+          stroke.timer = setTimeout(flushStroke, STROKE_BATCH_MS);
+        }
+        break;
+      }
+        
+      case 'end': {
+        const stroke = outgoingStrokeRef.current;
+        if (!stroke) return;
+        flushStroke();
+        sendDrawingMessage({ type: 'end', stroke_id: stroke.path.id, batches: stroke.batches });
+        outgoingStrokeRef.current = null;
+        
+        const currentRoom = useGameStore.getState().room;
+        if (currentRoom) {
+          saveStroke(currentRoom.id, currentRoom.current_round, stroke.path)
+            .catch(e => console.error('Failed to save stroke:', e));
+        }
+        break;
+      }
+        
+      case 'undo':
+        // Undo targets one stroke, so a concurrent drawer's strokes stay put
+        if (!input.stroke_id) return;
+        sendDrawingMessage({ type: 'undo', stroke_id: input.stroke_id });
+        if (room) {
+          deleteStroke(room.id, input.stroke_id).catch(e => console.error('Failed to delete stroke:', e));
+        }
+        break;
+        
+      case 'clear':
+        flushStroke();
+        outgoingStrokeRef.current = null;
+        sendDrawingMessage({ type: 'clear' });
+        if (room) {
+          clearStrokes(room.id, room.current_round).catch(e => console.error('Failed to clear strokes:', e));
+        }
+        break;
+    }
+  }, [room, flushStroke, sendDrawingMessage]);
+
+  // Score a correct guess and show it. Only ever fed from the database
+  // (handleValidatedGuess), never from another client's broadcast.
+  const applyCorrectGuess = useCallback((event: Extract<GameEvent, { type: 'correct_guess' }> & { awards: ScoreAward[] }) => {
+    // Engine awards points; host schedules the round end
+    if (!dispatchGame(event)) return; // Already counted
+    roundAwardsRef.current.push(...event.awards);
+
+    const latestState = useGameStore.getState();
+    // The server blanks the text of a correct guess (in free-for-all others
+    // are still guessing), so only the drawer has the word to show here;
+    // everyone else gets it from the reveal at round end
+    const revealedWord = latestState.room?.current_word ?? null;
+    if (revealedWord) {
+      shownWordRef.current = revealedWord;
+    }
+
+    const points = event.guesser_points || event.drawer_points || 0;
+    addMessage({
+      id: `msg_${Date.now()}`,
+      room_id: latestState.room?.id || '',
+      player_id: event.player_id,
+      player_name: event.player_name,
+      text: revealedWord
+        ? `🎉 Correct! The word was "${revealedWord}" (+${points})`
+        : `🎉 ${event.player_id === event.drawer_id ? 'Got it!' : 'Guessed the word!'} (+${points})`,
+      is_correct_guess: true,
+      timestamp: new Date().toISOString(),
+    });
+  }, [dispatchGame, addMessage]);
+
+  // A guess the server accepted, whoever is drawing. Its time and rank come
+  // from the server, not from what this client happened to see first.
+  const handleValidatedGuess = useCallback((guess: ValidatedGuess) => {
+    const { room: currentRoom, players: currentPlayers } = useGameStore.getState();
+    if (!currentRoom) return;
+    
+    const drawer = currentPlayers.find(p => p.is_drawing);
+    const rules = SCORING_PRESETS[currentRoom.settings.scoring];
+    const elapsedMs = elapsedSince(currentRoom.round_start_time, guess.created_at);
+
+    if (guess.manual) {
+      // The drawer's "got it": we don't know who guessed, so only the drawer scores
+      const breakdown = scoreDrawer(rules, currentRoom.word_difficulty);
+      const points = totalPoints(breakdown);
+      applyCorrectGuess({
+        type: 'correct_guess',
+        player_id: guess.player_id,
+        player_name: guess.player_name,
+        guesser_points: 0,
+        drawer_id: guess.player_id,
+        drawer_points: points,
+        awards: [{ player_id: guess.player_id, role: 'drawer', points, time_taken: Math.round(elapsedMs / 1000), breakdown }],
+      });
+      return;
+    }
+
+    const awards = awardGuess(rules, guess.player_id, drawer?.id ?? null, {
+      elapsedMs,
+      timerMs: currentRoom.settings.timer_seconds * 1000,
+      rank: guess.guess_rank ?? 1,
+      mode: currentRoom.settings.mode,
+      wordDifficulty: currentRoom.word_difficulty,
+    });
+    applyCorrectGuess({
+      type: 'correct_guess',
+      player_id: guess.player_id,
+      player_name: guess.player_name,
+      guesser_points: pointsFor(awards, 'guesser'),
+      drawer_id: drawer?.id ?? null,
+      drawer_points: pointsFor(awards, 'drawer'),
+      awards,
+    });
+  }, [applyCorrectGuess]);
+
+  // Send chat message (guesses are checked server-side)
   const sendChat = useCallback((text: string) => {
     if (!channelRef.current || !currentPlayer || !room) return;
     
@@ -740,8 +1621,38 @@ export const useMultiplayer = () => {
       timestamp: new Date().toISOString(),
     };
     
-    sendEvent({ type: 'chat', message });
     addMessage(message);
+    
+    if (room.status !== 'playing' || currentPlayer.is_drawing) {
+      sendEvent({ type: 'chat', message });
+      return;
+    }
+    
+    // Free-for-all: others are still guessing, so a correct guess isn't
+    // shown to them (the server's check says whether it was)
+    const isFreeForAll = room.settings.mode === 'free_for_all';
+    if (!isFreeForAll) {
+      sendEvent({ type: 'chat', message });
+    }
+    submitGuess(room.id, text)
+      .then(verdict => {
+        if (isFreeForAll && verdict !== 'correct') {
+          sendEvent({ type: 'chat', message });
+        }
+        if (verdict === 'close') {
+          // Just for us, nobody else hears about it
+          addMessage({
+            id: `msg_close_${Date.now()}`,
+            room_id: room.id,
+            player_id: 'system',
+            player_name: 'System',
+            text: `🔥 "${text}" is close!`,
+            is_correct_guess: false,
+            timestamp: new Date().toISOString(),
+          });
+        }
+      })
+      .catch(e => console.error('Failed to submit guess:', e));
   }, [currentPlayer, room, sendEvent, addMessage]);
 
   // Toggle ready state
@@ -757,10 +1668,14 @@ export const useMultiplayer = () => {
     if (channelRef.current) {
       channelRef.current.track({ player: { ...currentPlayer, is_ready: newReady } });
     }
-  }, [currentPlayer, updatePlayer, setCurrentPlayer, sendEvent]);
+    
+    if (room) {
+      upsertPlayer({ ...currentPlayer, is_ready: newReady }, room.id).catch(e => console.error('Failed to save player:', e));
+    }
+  }, [currentPlayer, room, updatePlayer, setCurrentPlayer, sendEvent]);
 
   // Join a team
-  const joinTeam = useCallback((team: 1 | 2) => {
+  const joinTeam = useCallback((team: TeamNumber) => {
     if (!currentPlayer) return;
     
     updatePlayer(currentPlayer.id, { team });
@@ -770,7 +1685,79 @@ export const useMultiplayer = () => {
     if (channelRef.current) {
       channelRef.current.track({ player: { ...currentPlayer, team } });
     }
-  }, [currentPlayer, updatePlayer, setCurrentPlayer]);
+    
+    // Only the host writes teams through (the server only accepts guesses
+    // from the drawing team); it picks ours up from presence and saves it
+    // by the time the game starts
+    if (currentPlayer.is_host) {
+      persistRoomState();
+    }
+  }, [currentPlayer, updatePlayer, setCurrentPlayer, persistRoomState]);
+
+  // Put everyone on the teams in `teams`. Presence carries our team too, so
+  // re-track it or the next presence sync would undo the change.
+  const applyTeams = useCallback((teams: TeamAssignment) => {
+    const state = useGameStore.getState();
+    state.players.forEach(player => {
+      const team = teams[player.id];
+      if (team !== undefined && team !== player.team) {
+        updatePlayer(player.id, { team: team as TeamNumber });
+      }
+    });
+
+    const me = state.currentPlayer;
+    const myTeam = me ? teams[me.id] : undefined;
+    if (me && myTeam !== undefined && myTeam !== me.team) {
+      const updated = { ...me, team: myTeam as TeamNumber };
+      setCurrentPlayer(updated);
+      if (channelRef.current) {
+        channelRef.current.track({ player: updated });
+      }
+    }
+  }, [updatePlayer, setCurrentPlayer]);
+
+  // Host: send a whole team assignment out as one event
+  const assignTeams = useCallback((teams: TeamAssignment) => {
+    if (!currentPlayer?.is_host || !room || room.status !== 'lobby') return;
+    
+    applyTeams(teams);
+    sendEvent({ type: 'teams_assigned', teams });
+    persistRoomState();
+  }, [currentPlayer, room, applyTeams, sendEvent, persistRoomState]);
+
+  const shufflePlayers = useCallback(() => {
+    if (!room) return;
+    assignTeams(shuffleTeams(useGameStore.getState().players, room.settings.team_count));
+  }, [room, assignTeams]);
+
+  // Even counts; with `useScores`, also even out points from earlier games here
+  const balancePlayers = useCallback((useScores: boolean) => {
+    if (!room) return;
+    const skill = useScores ? pastScoresRef.current : undefined;
+    assignTeams(balanceTeams(useGameStore.getState().players, room.settings.team_count, skill));
+  }, [room, assignTeams]);
+
+  // Change lobby settings (host only, before the game starts)
+  const updateSettings = useCallback((changes: LobbySettings) => {
+    if (!currentPlayer?.is_host || !room || room.status !== 'lobby') return;
+    
+    const lobbySettings = validateSettings(changes);
+    setRoom({ ...room, ...lobbySettings });
+    sendEvent({ type: 'settings_changed', ...lobbySettings });
+    saveLastSettings(lobbySettings);
+    
+    // Fewer teams: players on the teams that went away join the smallest ones left
+    const { team_count } = lobbySettings.settings;
+    const { players: currentPlayers } = useGameStore.getState();
+    const stranded = currentPlayers.filter(p => p.team !== null && p.team > team_count);
+    if (stranded.length > 0) {
+      const placed = placeUnassigned(currentPlayers.filter(p => p.team !== null), team_count);
+      const moves: TeamAssignment = {};
+      stranded.forEach(p => { moves[p.id] = placed[p.id]; });
+      assignTeams(moves);
+    }
+    persistRoomState();
+  }, [currentPlayer, room, setRoom, sendEvent, assignTeams, persistRoomState]);
 
   // Start game (host only)
   const startGame = useCallback(() => {
@@ -780,36 +1767,32 @@ export const useMultiplayer = () => {
     clearMessages();
     // Don't reset word tracking here so we don't repeat words in the same session
     
-    // Pick first drawer from team 1
-    const team1Players = players
-      .filter(p => p.team === 1)
-      .sort((a, b) => a.id.localeCompare(b.id));
-
-    if (team1Players.length === 0) return; // Need at least one player on team 1
-    
-    // Round Robin: Round 1 (Team 1) -> Index 0
-    const firstDrawer = team1Players[0];
-    
-    // Pick a word
-    const word = getRandomWord(room.settings.difficulty);
+    // Anyone who didn't pick a team gets one
+    const { players: currentPlayers } = useGameStore.getState();
+    if (room.settings.mode === 'teams' && currentPlayers.some(p => p.team === null)) {
+      assignTeams(placeUnassigned(currentPlayers, room.settings.team_count));
+    }
     
-    // Broadcast game start with round info (including drawer_id)
-    sendEvent({ 
-      type: 'round_started', 
-      round: 1, 
-      drawing_team: 1,
-      drawer_id: firstDrawer.id,
-      word,
-    });
+    // Engine picks the first drawer (from team 1 in teams mode) and announces round 1
+    if (!dispatchGame({ type: 'start_game' })) return; // Need at least one player on team 1
     
     useGameStore.getState().startGame();
-  }, [currentPlayer, room, players, sendEvent, getRandomWord, clearMessages]);
+  }, [currentPlayer, room, dispatchGame, clearMessages, assignTeams]);
 
-  // Set a new word (for next round or when drawer picks)
-  const setWord = useCallback((word: string) => {
-    if (!currentPlayer?.is_drawing) return;
-    sendEvent({ type: 'new_word', word });
-  }, [currentPlayer, sendEvent]);
+  // Drawer: pick one of the words the host offered
+  const chooseWord = useCallback((word: string) => {
+    const { room: currentRoom, currentPlayer: me } = useGameStore.getState();
+    const choice = currentRoom?.word_choice;
+    if (!currentRoom || !me || !choice || choice.drawer_id !== me.id) return;
+    
+    useGameStore.getState().setWordChoices([]);
+    if (me.is_host) {
+      settleWordChoice(choice.round, word);
+    } else {
+      sendToPlayer(currentRoom.code, currentRoom.host_id, 'word_chosen', { round: choice.round, word })
+        .catch(e => console.error('Failed to send word choice:', e));
+    }
+  }, [settleWordChoice]);
 
   // Tag team (pass drawing to teammate)
   const tagTeam = useCallback((newDrawerId: string) => {
@@ -821,101 +1804,90 @@ export const useMultiplayer = () => {
     setCurrentPlayer({ ...currentPlayer, is_drawing: false });
   }, [currentPlayer, sendEvent, updatePlayer, setCurrentPlayer]);
 
-  // End round
+  // Host: put a player out of the room. Their row goes too, so they can't
+  // come back as a rejoin; a ban also keeps them out for the room's lifetime.
+  const removePlayerFromRoom = useCallback((playerId: string, ban: boolean) => {
+    if (!currentPlayer?.is_host || !room || playerId === currentPlayer.id) return;
+    
+    if (ban && !room.banned_ids.includes(playerId)) {
+      setRoom({ ...room, banned_ids: [...room.banned_ids, playerId] });
+    }
+    sendEvent({ type: ban ? 'player_banned' : 'player_kicked', player_id: playerId });
+    removePlayer(playerId);
+    deletePlayer(playerId).catch(e => console.error('Failed to remove player:', e));
+    persistRoomState();
+  }, [currentPlayer, room, setRoom, sendEvent, removePlayer, persistRoomState]);
+
+  const kickPlayer = useCallback((playerId: string) => removePlayerFromRoom(playerId, false), [removePlayerFromRoom]);
+  const banPlayer = useCallback((playerId: string) => removePlayerFromRoom(playerId, true), [removePlayerFromRoom]);
+
+  // Host: stop (or allow again) new players joining
+  const setRoomLocked = useCallback((locked: boolean) => {
+    if (!currentPlayer?.is_host || !room) return;
+    
+    setRoom({ ...room, locked });
+    sendEvent({ type: 'room_locked', locked });
+    persistRoomState();
+  }, [currentPlayer, room, setRoom, sendEvent, persistRoomState]);
+
+  // End round when the clock runs out (the engine rejects it before the deadline)
   const endRound = useCallback(() => {
     if (!currentPlayer?.is_host || !room) return;
     
-    sendEvent({ type: 'round_ended', round: room.current_round });
-  }, [currentPlayer, room, sendEvent]);
+    dispatchGame({ type: 'end_round', round: room.current_round, now: getSyncedNow() });
+  }, [currentPlayer, room, dispatchGame, getSyncedNow]);
 
-  // Mark correct guess (drawer manually confirms their team got it)
+  // Mark correct guess (drawer manually confirms their team got it). The
+  // server checks we're drawing and records it; it comes back to everyone
+  // through handleValidatedGuess.
   const markCorrectGuess = useCallback(() => {
     if (!currentPlayer?.is_drawing || !room) return;
     
-    // Award points - drawer gets points for successful drawing
-    const drawerPoints = 1;
+    confirmGuessed(room.id).catch(e => console.error('Failed to confirm guess:', e));
+  }, [currentPlayer, room]);
+
+  // Host: the drawer gave up on their word, so the round ends now. Only
+  // the drawer may, and only for the round being played.
+  const skipRound = useCallback((playerId: string, round: number) => {
+    const { room: currentRoom, players: currentPlayers, currentPlayer: me } = useGameStore.getState();
+    if (!me?.is_host || !currentRoom || currentRoom.status !== 'playing' || currentRoom.current_round !== round) return;
+    if (currentPlayers.find(p => p.is_drawing)?.id !== playerId) return;
     
-    sendEvent({ 
-      type: 'correct_guess', 
-      player_id: currentPlayer.id, // drawer gets the points for manual confirm
-      player_name: currentPlayer.name,
-      guesser_points: 0, // Manual confirm means we don't know who guessed, or it was verbal. Only drawer points.
-      drawer_id: currentPlayer.id,
-      drawer_points: drawerPoints,
-      word: room.current_word, // Send word to reveal
-      manual: true,
-    });
-  }, [currentPlayer, room, sendEvent]);
+    sendEvent({ type: 'word_skipped', round });
+    dispatchGame({ type: 'end_round', round, now: getSyncedNow(), skipped: true });
+  }, [sendEvent, dispatchGame, getSyncedNow]);
 
-  // Skip current word (drawer gives up on this word)
+  // Skip current word (drawer gives up on this word); the host ends the round
   const skipWord = useCallback(() => {
     if (!currentPlayer?.is_drawing || !room) return;
     
-    // Add a message that word was skipped
-    addMessage({
-      id: `msg_${Date.now()}`,
-      room_id: room.id,
-      player_id: 'system',
-      player_name: 'System',
-      text: `⏭️ Word skipped! It was "${room.current_word}"`,
-      is_correct_guess: false,
-      timestamp: new Date().toISOString(),
-    });
-    
-    // Broadcast skip and trigger round end
-    sendEvent({ type: 'word_skipped', word: room.current_word });
-    sendEvent({ type: 'round_ended', round: room.current_round });
-  }, [currentPlayer, room, sendEvent, addMessage]);
+    if (currentPlayer.is_host) {
+      skipRound(currentPlayer.id, room.current_round);
+    } else {
+      sendToPlayer(room.code, room.host_id, 'skip_round', { player_id: currentPlayer.id, round: room.current_round })
+        .catch(e => console.error('Failed to skip word:', e));
+    }
+  }, [currentPlayer, room, skipRound]);
 
-  // Start tiebreaker rounds (host only) - keeps scores, adds 2 extra rounds
+  // Start tiebreaker rounds (host only) - keeps scores, one extra round per team
   const startTiebreaker = useCallback(() => {
     if (!currentPlayer?.is_host || !room) return;
     
     clearMessages();
     
-    const newTotalRounds = room.current_round + 2; // One round per team
-    
-    // Pick first drawer from team 1
-    const team1PlayersArr = players
-      .filter(p => p.team === 1)
-      .sort((a, b) => a.id.localeCompare(b.id));
-
-    if (team1PlayersArr.length === 0) return;
-    
-    const nextRound = room.current_round + 1;
-    const playerIndex = Math.floor((nextRound - 1) / 2) % team1PlayersArr.length;
-    const firstDrawer = team1PlayersArr[playerIndex];
-    
-    // Pick a word
-    const word = getRandomWord(room.settings.difficulty);
-    
-    // Update room with new total rounds and broadcast round start
-    const updatedRoom: Room = {
-      ...room,
-      total_rounds: newTotalRounds,
-      status: 'playing',
-    };
-    setRoom(updatedRoom);
-    
-    sendEvent({ 
-      type: 'round_started', 
-      round: nextRound, 
-      drawing_team: 1,
-      drawer_id: firstDrawer.id,
-      word,
-      total_rounds: newTotalRounds,
-    });
+    if (!dispatchGame({ type: 'start_tiebreaker' })) return;
     
     useGameStore.getState().startGame();
-  }, [currentPlayer, room, players, sendEvent, getRandomWord, clearMessages, setRoom]);
+  }, [currentPlayer, room, dispatchGame, clearMessages]);
 
   // Reset game for "play again" (host only)
   const resetForNewGame = useCallback(() => {
     if (!currentPlayer?.is_host || !room) return;
     
-    // Reset all players' scores and ready status
+    // Reset all players' scores and ready status (keeping them for team balancing)
     const state = useGameStore.getState();
     state.players.forEach(player => {
+      pastScoresRef.current[player.id] = (pastScoresRef.current[player.id] ?? 0) + player.score;
       updatePlayer(player.id, { 
         score: 0, 
         is_ready: false, 
@@ -934,6 +1906,9 @@ export const useMultiplayer = () => {
     // Clear game state
     clearDrawings();
     clearMessages();
+    useGameStore.getState().clearRoundResults();
+    if (wordChoiceRef.current) clearTimeout(wordChoiceRef.current.timer);
+    wordChoiceRef.current = null;
     // Don't reset word tracking here so we don't repeat words in the same session
     
     // Update room to lobby status
@@ -944,6 +1919,11 @@ export const useMultiplayer = () => {
       current_word: null,
       drawing_team: 1,
       round_start_time: null,
+      round_deadline: null,
+      word_hash: null,
+      word_hint: null,
+      word_choice: null,
+      word_difficulty: null,
     };
     setRoom(newRoom);
     
@@ -964,21 +1944,59 @@ export const useMultiplayer = () => {
         } 
       });
     }
-  }, [currentPlayer, room, updatePlayer, setCurrentPlayer, clearDrawings, clearMessages, setRoom, sendEvent]);
-
-  // Leave room
-  const leaveRoom = useCallback(async () => {
-    // Clear saved session
-    await clearSession();
     
+    persistRoomState();
+  }, [currentPlayer, room, updatePlayer, setCurrentPlayer, clearDrawings, clearMessages, setRoom, sendEvent, persistRoomState]);
+
+  // Drop the room's channels and everything we knew about it
+  const disconnect = useCallback(async () => {
     if (channelRef.current) {
       await supabase.removeChannel(channelRef.current);
       channelRef.current = null;
     }
+    if (inboxRef.current) {
+      await supabase.removeChannel(inboxRef.current);
+      inboxRef.current = null;
+    }
+    secretRef.current = null;
+    pendingSecretRef.current = null;
+    if (wordChoiceRef.current) clearTimeout(wordChoiceRef.current.timer);
+    wordChoiceRef.current = null;
+    sentSeqRef.current = 0;
+    eventLogRef.current = [];
+    lastSeqRef.current = null;
+    seqHostRef.current = null;
+    incomingStrokesRef.current = {};
+    clockOffsetRef.current = 0;
+    resyncRequestedAtRef.current = null;
     usedWordsRef.current.clear(); // Reset word tracking
+    recentWordsRef.current = new Set();
     reset();
   }, [reset]);
 
+  // Leave room
+  const leaveRoom = useCallback(async () => {
+    // Clear saved session
+    await clearSession();
+    
+    const me = useGameStore.getState().currentPlayer;
+    if (me) {
+      deletePlayer(me.id).catch(e => console.error('Failed to remove player:', e));
+    }
+    
+    await disconnect();
+  }, [disconnect]);
+
+  // The host kicked or banned us: leave without offering a rejoin
+  const removeFromRoom = useCallback(async (reason: RemovedReason) => {
+    await clearSession();
+    await disconnect();
+    setRemovedReason(reason);
+  }, [disconnect, setRemovedReason]);
+
+  // Once the UI has told the player why they're out
+  const acknowledgeRemoval = useCallback(() => setRemovedReason(null), [setRemovedReason]);
+
   return {
     // State
     room,
@@ -986,24 +2004,34 @@ export const useMultiplayer = () => {
     currentPlayer,
     isConnected,
     error,
+    removedReason,
     drawings,
     messages,
+    wordChoices,
     
     // Room actions
     createRoom,
     joinRoom,
     leaveRoom,
+    kickPlayer,
+    banPlayer,
+    setRoomLocked,
+    acknowledgeRemoval,
     
     // Player actions
     toggleReady,
     joinTeam,
+    updateSettings,
+    shufflePlayers,
+    balancePlayers,
     
     // Game actions
     startGame,
     tagTeam,
-    setWord,
+    chooseWord,
     endRound,
     getRandomWord,
+    getSyncedNow,
     markCorrectGuess,
     skipWord,
     resetForNewGame,
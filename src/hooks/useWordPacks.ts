@@ -0,0 +1,19 @@
+import { useCallback, useEffect, useState } from 'react';
+import { WordPack, loadWordPacks } from '../lib/wordPacks';
+
+// This device's custom word lists
+export const useWordPacks = () => {
+  const [packs, setPacks] = useState<WordPack[]>([]);
+
+  const reload = useCallback(() => {
+    loadWordPacks().then(setPacks);
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { packs, setPacks, reload };
+};
+
+export default useWordPacks;
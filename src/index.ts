@@ -1,8 +1,9 @@
 // Multiplayer exports
 export { MultiplayerApp } from './App.multiplayer';
 export { useMultiplayer } from './hooks/useMultiplayer';
+export { useWordPacks } from './hooks/useWordPacks';
 export { useGameStore } from './lib/gameStore';
-export { supabase, isSupabaseConfigured, generateRoomCode, generatePlayerId } from './lib/supabase';
+export { supabase, isSupabaseConfigured, generateRoomCode, getPlayerId } from './lib/supabase';
 
 // Screens
 export { HomeScreen } from './screens/HomeScreen';
@@ -10,6 +11,8 @@ export { CreateRoomScreen } from './screens/CreateRoomScreen';
 export { JoinRoomScreen } from './screens/JoinRoomScreen';
 export { LobbyScreen } from './screens/LobbyScreen';
 export { MultiplayerGameScreen } from './screens/MultiplayerGameScreen';
+export { WordPacksScreen } from './screens/WordPacksScreen';
+export { WordHistoryScreen } from './screens/WordHistoryScreen';
 
 // Types
 export * from './types/multiplayer';
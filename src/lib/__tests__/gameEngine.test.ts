@@ -0,0 +1,187 @@
+import {
+  EngineViewer,
+  GameEngineState,
+  GameEvent,
+  NEXT_ROUND_DELAY_MS,
+  RESULT_DELAY_MS,
+  createGameState,
+  createLocalGameState,
+  pickDrawer,
+  pickFreeForAllDrawer,
+  reduceGame,
+  runLocalGame,
+  withTime,
+} from '../gameEngine';
+
+const HOST: EngineViewer = { playerId: 'a', isHost: true };
+const GUESSER: EngineViewer = { playerId: 'b', isHost: false };
+
+const teamPlayers = [
+  { id: 'a', team: 1, score: 0 },
+  { id: 'b', team: 1, score: 0 },
+  { id: 'c', team: 2, score: 0 },
+  { id: 'd', team: 2, score: 0 },
+];
+
+// A teams game that has just started round 1 with `a` drawing
+const playing = (overrides: Partial<GameEngineState> = {}): GameEngineState =>
+  createGameState({
+    status: 'playing',
+    round: 1,
+    totalRounds: 4,
+    drawerId: 'a',
+    deadline: 60_000,
+    players: teamPlayers,
+    hostId: 'a',
+    ...overrides,
+  });
+
+const guess = (player_id: string, guesser_points = 10, drawer_points = 5): GameEvent => ({
+  type: 'correct_guess',
+  player_id,
+  player_name: player_id,
+  guesser_points,
+  drawer_id: 'a',
+  drawer_points,
+});
+
+describe('drawer rotation', () => {
+  it('takes teammates in turn, once per full rotation of teams', () => {
+    const drawers = [1, 2, 3, 4, 5, 6].map(round => pickDrawer(teamPlayers, ((round - 1) % 2) + 1, round, 2)?.id);
+    expect(drawers).toEqual(['a', 'c', 'b', 'd', 'a', 'c']);
+  });
+
+  it('has no drawer for an empty team', () => {
+    expect(pickDrawer(teamPlayers, 3, 1, 3)).toBeNull();
+  });
+
+  it('goes through everyone in free-for-all', () => {
+    const drawers = [1, 2, 3, 4, 5].map(round => pickFreeForAllDrawer(teamPlayers, round)?.id);
+    expect(drawers).toEqual(['a', 'b', 'c', 'd', 'a']);
+  });
+
+  it('hands the next round to the next team', () => {
+    const { state } = reduceGame(playing(), { type: 'round_ended', round: 1, host_id: 'a' }, HOST);
+    expect(state.round).toBe(2);
+    expect(state.drawingTeam).toBe(2);
+    expect(state.drawerId).toBeNull();
+  });
+
+  it('goes back to team 1 after the last team', () => {
+    const { state } = reduceGame(playing({ drawingTeam: 2, round: 2 }), { type: 'round_ended', round: 2, host_id: 'a' }, HOST);
+    expect(state.drawingTeam).toBe(1);
+  });
+});
+
+describe('scoring', () => {
+  it('adds the guesser and drawer points', () => {
+    const { state } = reduceGame(playing(), guess('b'), GUESSER);
+    expect(state.players.find(p => p.id === 'b')?.score).toBe(10);
+    expect(state.players.find(p => p.id === 'a')?.score).toBe(5);
+    expect(state.guessedIds).toEqual(['b']);
+  });
+
+  it('counts a player once per round', () => {
+    const once = reduceGame(playing(), guess('b'), GUESSER).state;
+    const twice = reduceGame(once, guess('b'), GUESSER);
+    expect(twice.state).toBe(once);
+  });
+
+  it('ends a teams round after the first correct guess', () => {
+    const { effects } = reduceGame(playing(), guess('b'), HOST);
+    expect(effects).toEqual([
+      { type: 'schedule', delayMs: RESULT_DELAY_MS, event: { type: 'end_round', round: 1 } },
+    ]);
+  });
+
+  it('keeps a free-for-all round going until everyone has it', () => {
+    let state = playing({ mode: 'free_for_all' });
+    let effects = reduceGame(state, guess('b'), HOST).effects;
+    expect(effects).toEqual([]);
+
+    state = reduceGame(state, guess('b'), HOST).state;
+    state = reduceGame(state, guess('c'), HOST).state;
+    effects = reduceGame(state, guess('d'), HOST).effects;
+    expect(effects).toHaveLength(1);
+  });
+
+  it('zeroes scores on reset', () => {
+    const scored = reduceGame(playing(), guess('b'), GUESSER).state;
+    const { state } = reduceGame(scored, { type: 'game_reset' }, GUESSER);
+    expect(state.status).toBe('lobby');
+    expect(state.players.every(p => p.score === 0)).toBe(true);
+  });
+});
+
+describe('ending a round', () => {
+  it('refuses to end before the deadline while the word is unguessed', () => {
+    const state = playing();
+    expect(reduceGame(state, { type: 'end_round', round: 1, now: 59_999 }, HOST).effects).toEqual([]);
+  });
+
+  it('ends once the deadline has passed', () => {
+    const { effects } = reduceGame(playing(), { type: 'end_round', round: 1, now: 60_000 }, HOST);
+    expect(effects).toEqual([{ type: 'broadcast', event: { type: 'round_ended', round: 1, host_id: 'a' } }]);
+  });
+
+  it('ends early once the round is guessed', () => {
+    const guessed = reduceGame(playing(), guess('b'), HOST).state;
+    const [scheduled] = reduceGame(playing(), guess('b'), HOST).effects;
+    if (scheduled.type !== 'schedule') throw new Error('expected a scheduled end');
+
+    const { effects } = reduceGame(guessed, withTime(scheduled.event, 2_000), HOST);
+    expect(effects).toHaveLength(1);
+  });
+
+  it('ends early when the drawer gives up', () => {
+    const { effects } = reduceGame(playing(), { type: 'end_round', round: 1, now: 2_000, skipped: true }, HOST);
+    expect(effects).toEqual([{ type: 'broadcast', event: { type: 'round_ended', round: 1, host_id: 'a' } }]);
+  });
+
+  it('only takes round and game ends from the host', () => {
+    expect(reduceGame(playing(), { type: 'round_ended', round: 1, host_id: 'b' }, GUESSER).state.round).toBe(1);
+    expect(reduceGame(playing(), { type: 'game_ended', host_id: 'b' }, GUESSER).state.status).toBe('playing');
+  });
+
+  it('ignores stale rounds and non-hosts', () => {
+    expect(reduceGame(playing(), { type: 'end_round', round: 0, now: 90_000 }, HOST).effects).toEqual([]);
+    expect(reduceGame(playing(), { type: 'end_round', round: 1, now: 90_000 }, GUESSER).effects).toEqual([]);
+  });
+
+  it('schedules the next round', () => {
+    const { effects } = reduceGame(playing(), { type: 'round_ended', round: 1, host_id: 'a' }, HOST);
+    expect(effects).toEqual([{ type: 'schedule', delayMs: NEXT_ROUND_DELAY_MS, event: { type: 'start_round' } }]);
+  });
+});
+
+describe('end of game', () => {
+  it('ends the game after the last round', () => {
+    const last = playing({ round: 4, drawingTeam: 2 });
+    const { state, effects } = reduceGame(last, { type: 'round_ended', round: 4, host_id: 'a' }, HOST);
+    expect(effects).toEqual([{ type: 'broadcast', event: { type: 'game_ended', host_id: 'a' } }]);
+    expect(reduceGame(state, { type: 'game_ended', host_id: 'a' }, HOST).state.status).toBe('finished');
+  });
+
+  it('gives every team one more turn in a tiebreaker', () => {
+    const finished = playing({ status: 'finished', round: 5 });
+    const { state, effects } = reduceGame(finished, { type: 'start_tiebreaker' }, HOST);
+    expect(state.totalRounds).toBe(6);
+    expect(effects[0]).toMatchObject({ type: 'start_round', round: 5, drawing_team: 1, total_rounds: 6 });
+  });
+
+  it('plays a local game through to the end', () => {
+    let state = runLocalGame(createLocalGameState(2, 2), { type: 'start_round' }, () => 'cat');
+    expect(state.word).toBe('cat');
+
+    state = runLocalGame(state, { type: 'correct_guess', player_id: 'team_1', player_name: 'Team 1', guesser_points: 1 }, () => 'dog');
+    state = runLocalGame(state, { type: 'end_round', round: 1, now: Date.now() }, () => 'dog');
+    expect(state.round).toBe(2);
+    state = runLocalGame(state, { type: 'start_round' }, () => 'dog');
+    expect(state.drawingTeam).toBe(2);
+    expect(state.word).toBe('dog');
+
+    state = runLocalGame(state, { type: 'end_round', round: 2, now: Date.now() }, () => 'sun');
+    expect(state.status).toBe('finished');
+    expect(state.players.map(p => p.score)).toEqual([1, 0]);
+  });
+});
@@ -0,0 +1,35 @@
+import { ThemedWordPack } from '../../types/multiplayer';
+import { BUILT_IN_PACKS } from '../words';
+import { assertValidPacks, reportPackProblems, validatePack } from '../wordValidation';
+
+describe('built-in word packs', () => {
+  it('have no repeats, tier clashes or stray formatting', () => {
+    expect(() => assertValidPacks(BUILT_IN_PACKS)).not.toThrow();
+  });
+
+  it('would be caught with a word in two tiers', () => {
+    const pack: ThemedWordPack = {
+      ...BUILT_IN_PACKS[0],
+      words: [
+        { word: 'horse', difficulty: 'easy', categories: ['animals'] },
+        { word: 'horses', difficulty: 'hard', categories: ['animals'] },
+      ],
+    };
+    expect(validatePack(pack).map(p => p.kind)).toEqual(['cross_tier']);
+    expect(() => assertValidPacks([pack])).toThrow(/1 problem/);
+  });
+});
+
+describe('load-time check', () => {
+  it('logs each problem once, without throwing', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const custom = [{ name: 'Mine', words: ['cat', 'cats', 'weekend'] }];
+
+    expect(() => reportPackProblems(BUILT_IN_PACKS, custom)).not.toThrow();
+    reportPackProblems(BUILT_IN_PACKS, custom);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toMatch(/2 problem/);
+    warn.mockRestore();
+  });
+});
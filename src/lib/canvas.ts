@@ -0,0 +1,26 @@
+/**
+ * Shared drawing space for online play. Strokes travel in logical units on
+ * a square LOGICAL_CANVAS_SIZE canvas, so a stroke drawn on an iPad lands in
+ * the same place (and at the same relative width) on a small phone.
+ * Renderers scale to their own size with an SVG viewBox.
+ */
+
+// Bump when the meaning of DrawingEvent / DrawingPath fields changes.
+// v1 was raw screen pixels from the drawer's device, v2 one message per
+// touch point, v3 batched strokes (lib/strokeStream.ts), v4 stroke IDs.
+export const DRAWING_PROTOCOL_VERSION = 4;
+
+export const LOGICAL_CANVAS_SIZE = 1000;
+
+// viewBox for an <Svg> that renders logical coordinates at any size
+export const CANVAS_VIEWBOX = `0 0 ${LOGICAL_CANVAS_SIZE} ${LOGICAL_CANVAS_SIZE}`;
+
+// Screen pixels on a canvas `canvasSize` wide -> logical units (clamped to the canvas)
+export const toLogical = (value: number, canvasSize: number): number => {
+  const logical = (value / canvasSize) * LOGICAL_CANVAS_SIZE;
+  return Math.round(Math.min(LOGICAL_CANVAS_SIZE, Math.max(0, logical)));
+};
+
+// Drawings from clients speaking another version can't be placed correctly
+export const isSupportedDrawing = (drawing: { v?: number }): boolean =>
+  drawing.v === DRAWING_PROTOCOL_VERSION;
@@ -0,0 +1,29 @@
+/**
+ * Shared round clock. The host's clock is the reference: every client
+ * estimates its offset to it with NTP-style pings over the room channel,
+ * and the host announces each round's deadline in its own time.
+ */
+
+// Pings per sync; the one with the shortest round trip wins
+export const CLOCK_PING_COUNT = 5;
+export const CLOCK_PING_INTERVAL_MS = 200;
+
+export interface ClockSample {
+  offset: number; // Add to Date.now() to get host time
+  rtt: number;
+}
+
+// One ping: sent at t0 (our clock), stamped t1 by the host, back at t3 (our clock).
+// Assumes the trip there took as long as the trip back.
+export const sampleClock = (t0: number, t1: number, t3: number): ClockSample => ({
+  offset: t1 - (t0 + t3) / 2,
+  rtt: t3 - t0,
+});
+
+// Shortest round trip has the least room for asymmetric delay
+export const bestClockSample = (samples: ClockSample[]): ClockSample | null =>
+  samples.reduce<ClockSample | null>((best, s) => (!best || s.rtt < best.rtt ? s : best), null);
+
+// Whole seconds left before `deadline`, both in host time
+export const secondsUntil = (deadline: number, now: number): number =>
+  Math.max(0, Math.ceil((deadline - now) / 1000));
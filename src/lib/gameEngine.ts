@@ -0,0 +1,371 @@
+/**
+ * Game rules engine - shared by online multiplayer (useMultiplayer) and
+ * local party mode (App.tsx).
+ *
+ * reduceGame(state, event, viewer) is pure: it returns the next state plus
+ * the outbound effects this client is responsible for. It never touches
+ * timers, channels, React or the word lists - callers run the effects.
+ */
+
+// How long the "Correct!" celebration stays up before the round ends
+export const RESULT_DELAY_MS = 2000;
+// Pause between one round ending and the next one starting
+export const NEXT_ROUND_DELAY_MS = 1500;
+
+export type GameStatus = 'lobby' | 'playing' | 'finished';
+
+// teams: one team draws and guesses each round. free_for_all: every player
+// draws in turn and everyone else guesses.
+export type GameMode = 'teams' | 'free_for_all';
+
+export interface EnginePlayer {
+  id: string;
+  team: number | null;
+  score: number;
+}
+
+export interface GameEngineState {
+  status: GameStatus;
+  round: number;
+  totalRounds: number;
+  mode: GameMode;
+  teamCount: number;
+  drawingTeam: number; // 1-based, unused in free-for-all
+  drawerId: string | null;
+  word: string | null; // Only known to clients allowed to see it
+  deadline: number | null; // When the round's time runs out, in host time (ms)
+  players: EnginePlayer[];
+  guessedIds: string[]; // Who has guessed this round's word
+  hostId: string | null; // Only the host ends rounds and games (null: local play)
+}
+
+// Who is running the reducer. playerId null means a local pass & play
+// device, which sits in every seat (and therefore sees the word).
+export interface EngineViewer {
+  playerId: string | null;
+  isHost: boolean;
+}
+
+export type GameEvent =
+  // Host commands
+  | { type: 'start_game' }
+  | { type: 'start_round' }
+  | { type: 'start_tiebreaker' }
+  // `now` is the host's clock; before the deadline only a guessed round
+  // ends, or one whose drawer gave up (the host checks it was them)
+  | { type: 'end_round'; round: number; now: number; skipped?: boolean }
+  // Events everyone receives
+  | {
+      type: 'round_started';
+      round: number;
+      drawing_team: number;
+      drawer_id: string;
+      word_hash?: string; // Guessers only ever see the salted hash
+      total_rounds?: number;
+      deadline?: number;
+    }
+  // Plaintext word, delivered only to the drawer
+  | { type: 'word_assigned'; round: number; word: string }
+  | {
+      type: 'correct_guess';
+      player_id: string;
+      player_name: string;
+      guesser_points: number;
+      drawer_id?: string | null;
+      drawer_points?: number;
+      word?: string | null;
+    }
+  | { type: 'round_ended'; round?: number; host_id: string | null }
+  | { type: 'game_ended'; host_id: string | null }
+  | { type: 'game_reset' };
+
+export type GameEffect =
+  // Send an event to every client in the room
+  | { type: 'broadcast'; event: GameEvent }
+  // Host: pick a word for this round, announce it with round_started and
+  // deliver the word itself to the drawer only
+  | { type: 'start_round'; round: number; drawing_team: number; drawer_id: string; total_rounds?: number }
+  // Feed a command back into the engine after a delay (see withTime)
+  | { type: 'schedule'; delayMs: number; event: ScheduledEvent };
+
+// Commands the engine schedules for itself. The time they run at isn't
+// known yet, so the caller stamps it on when the delay is up.
+export type ScheduledEvent = { type: 'start_round' } | { type: 'end_round'; round: number };
+
+export const withTime = (event: ScheduledEvent, now: number): GameEvent =>
+  event.type === 'end_round' ? { ...event, now } : event;
+
+export interface GameResult {
+  state: GameEngineState;
+  effects: GameEffect[];
+}
+
+export const createGameState = (
+  overrides: Partial<GameEngineState> = {}
+): GameEngineState => ({
+  status: 'lobby',
+  round: 0,
+  totalRounds: 10,
+  mode: 'teams',
+  teamCount: 2,
+  drawingTeam: 1,
+  drawerId: null,
+  word: null,
+  deadline: null,
+  players: [],
+  guessedIds: [],
+  hostId: null,
+  ...overrides,
+});
+
+// Team that draws after `team` (1 -> 2 -> ... -> teamCount -> 1)
+export const nextTeam = (team: number, teamCount: number): number =>
+  (team % teamCount) + 1;
+
+// Drawer for a round: teammates take turns (round-robin, not random).
+// Each team draws once every `teamCount` rounds, so the turn index advances
+// once per full rotation of teams.
+export const pickDrawer = (
+  players: EnginePlayer[],
+  team: number,
+  round: number,
+  teamCount: number
+): EnginePlayer | null => {
+  const teamPlayers = players
+    .filter(p => p.team === team)
+    .sort((a, b) => a.id.localeCompare(b.id)); // Sort by ID for deterministic order
+
+  if (teamPlayers.length === 0) return null;
+
+  const turn = Math.floor((round - 1) / teamCount) % teamPlayers.length;
+  return teamPlayers[turn];
+};
+
+// Free-for-all drawer: everyone takes a turn, in ID order
+export const pickFreeForAllDrawer = (players: EnginePlayer[], round: number): EnginePlayer | null => {
+  const ordered = [...players].sort((a, b) => a.id.localeCompare(b.id));
+  return ordered.length > 0 ? ordered[(round - 1) % ordered.length] : null;
+};
+
+// Players sharing the top score; more than one is a tie
+export const getLeaders = <P extends EnginePlayer>(players: P[]): P[] => {
+  const top = Math.max(...players.map(p => p.score));
+  return players.filter(p => p.score === top);
+};
+
+// Total score per team, index 0 = team 1
+export const getTeamScores = (players: EnginePlayer[], teamCount: number): number[] =>
+  Array.from({ length: teamCount }, (_, i) =>
+    players.filter(p => p.team === i + 1).reduce((sum, p) => sum + p.score, 0)
+  );
+
+const addPoints = (players: EnginePlayer[], playerId: string | null | undefined, points: number) =>
+  playerId && points > 0
+    ? players.map(p => (p.id === playerId ? { ...p, score: p.score + points } : p))
+    : players;
+
+// Teams: the first correct guess. Free-for-all: everyone but the drawer
+// has it. A manual "got it" from the drawer does either way.
+const isRoundGuessed = (state: GameEngineState, guessedIds: string[]): boolean =>
+  guessedIds.length > 0 && (
+    state.mode !== 'free_for_all' ||
+    guessedIds.includes(state.drawerId ?? '') ||
+    state.players.every(p => p.id === state.drawerId || guessedIds.includes(p.id))
+  );
+
+const startRoundEffect = (state: GameEngineState, totalRounds?: number): GameEffect[] => {
+  const drawer = state.mode === 'free_for_all'
+    ? pickFreeForAllDrawer(state.players, state.round)
+    : pickDrawer(state.players, state.drawingTeam, state.round, state.teamCount);
+  if (!drawer) return [];
+  return [{
+    type: 'start_round',
+    round: state.round,
+    drawing_team: state.drawingTeam,
+    drawer_id: drawer.id,
+    ...(totalRounds ? { total_rounds: totalRounds } : {}),
+  }];
+};
+
+export const reduceGame = (
+  state: GameEngineState,
+  event: GameEvent,
+  viewer: EngineViewer
+): GameResult => {
+  const unchanged: GameResult = { state, effects: [] };
+
+  switch (event.type) {
+    case 'start_game': {
+      if (!viewer.isHost) return unchanged;
+      const next: GameEngineState = {
+        ...state,
+        status: 'playing',
+        round: 1,
+        drawingTeam: 1,
+        drawerId: null,
+        word: null,
+        guessedIds: [],
+      };
+      const effects = startRoundEffect(next);
+      // Need at least one player on team 1 (or in the room)
+      return effects.length > 0 ? { state: next, effects } : unchanged;
+    }
+
+    case 'start_round':
+      if (!viewer.isHost || state.status !== 'playing') return unchanged;
+      return { state, effects: startRoundEffect(state) };
+
+    case 'start_tiebreaker': {
+      if (!viewer.isHost) return unchanged;
+      // Scores are kept; every team gets one more turn, starting from team 1.
+      // In free-for-all every player draws once more, carrying on the order.
+      const extraRounds = state.mode === 'free_for_all' ? state.players.length : state.teamCount;
+      const next: GameEngineState = {
+        ...state,
+        status: 'playing',
+        totalRounds: state.round + extraRounds - 1,
+        drawingTeam: 1,
+        drawerId: null,
+        word: null,
+      };
+      const effects = startRoundEffect(next, next.totalRounds);
+      return effects.length > 0 ? { state: next, effects } : unchanged;
+    }
+
+    case 'end_round':
+      // Stale timers (round already moved on) are ignored, and so is an
+      // early end while the word is still out there
+      if (!viewer.isHost || event.round !== state.round) return unchanged;
+      if (!event.skipped && state.deadline !== null && event.now < state.deadline && !isRoundGuessed(state, state.guessedIds)) {
+        return unchanged;
+      }
+      return {
+        state,
+        effects: [{ type: 'broadcast', event: { type: 'round_ended', round: state.round, host_id: viewer.playerId } }],
+      };
+
+    case 'round_started':
+      return {
+        state: {
+          ...state,
+          status: 'playing',
+          round: event.round,
+          drawingTeam: event.drawing_team,
+          drawerId: event.drawer_id,
+          word: null,
+          guessedIds: [],
+          deadline: event.deadline ?? null,
+          totalRounds: event.total_rounds || state.totalRounds,
+        },
+        effects: [],
+      };
+
+    case 'word_assigned': {
+      const isDrawer = viewer.playerId === null || viewer.playerId === state.drawerId;
+      if (!isDrawer || event.round !== state.round) return unchanged;
+      return { state: { ...state, word: event.word }, effects: [] };
+    }
+
+    // Guesses are checked server-side (submit_guess); a correct one
+    // arrives here as correct_guess, already scored (lib/scoring.ts)
+    case 'correct_guess': {
+      if (state.guessedIds.includes(event.player_id)) return unchanged;
+      let players = addPoints(state.players, event.player_id, Number(event.guesser_points) || 0);
+      players = addPoints(players, event.drawer_id, Number(event.drawer_points) || 0);
+      const guessedIds = [...state.guessedIds, event.player_id];
+
+      // Free-for-all rounds go on until everyone has it (or time's up)
+      return {
+        state: { ...state, players, guessedIds },
+        effects: viewer.isHost && isRoundGuessed(state, guessedIds)
+          ? [{ type: 'schedule', delayMs: RESULT_DELAY_MS, event: { type: 'end_round', round: state.round } }]
+          : [],
+      };
+    }
+
+    case 'round_ended': {
+      if (state.status !== 'playing' || event.host_id !== state.hostId) return unchanged;
+      if (event.round !== undefined && event.round !== state.round) return unchanged;
+
+      const nextRound = state.round + 1;
+      const next: GameEngineState = {
+        ...state,
+        round: nextRound,
+        drawingTeam: state.mode === 'free_for_all' ? state.drawingTeam : nextTeam(state.drawingTeam, state.teamCount),
+        drawerId: null,
+        word: null,
+        deadline: null,
+        guessedIds: [],
+      };
+
+      if (!viewer.isHost) return { state: next, effects: [] };
+
+      if (nextRound > state.totalRounds) {
+        return { state: next, effects: [{ type: 'broadcast', event: { type: 'game_ended', host_id: viewer.playerId } }] };
+      }
+      return {
+        state: next,
+        effects: [{ type: 'schedule', delayMs: NEXT_ROUND_DELAY_MS, event: { type: 'start_round' } }],
+      };
+    }
+
+    case 'game_ended':
+      if (event.host_id !== state.hostId) return unchanged;
+      return { state: { ...state, status: 'finished' }, effects: [] };
+
+    case 'game_reset':
+      return {
+        state: {
+          ...state,
+          status: 'lobby',
+          round: 0,
+          drawingTeam: 1,
+          drawerId: null,
+          word: null,
+          deadline: null,
+          players: state.players.map(p => ({ ...p, score: 0 })),
+          guessedIds: [],
+        },
+        effects: [],
+      };
+
+    default:
+      return unchanged;
+  }
+};
+
+export const LOCAL_VIEWER: EngineViewer = { playerId: null, isHost: true };
+
+// Local pass & play: one seat per team, the team plays as a single "player"
+export const createLocalGameState = (teamCount: number, totalRounds: number): GameEngineState =>
+  createGameState({
+    status: 'playing',
+    round: 1,
+    totalRounds,
+    teamCount,
+    players: Array.from({ length: teamCount }, (_, i) => ({ id: `team_${i + 1}`, team: i + 1, score: 0 })),
+  });
+
+// Runs an event on a single device. There is no channel, so broadcasts loop
+// straight back in; scheduled follow-ups are dropped because the local menu
+// screen drives when the next round starts.
+export const runLocalGame = (
+  state: GameEngineState,
+  event: GameEvent,
+  pickWord: () => string
+): GameEngineState => {
+  const { state: next, effects } = reduceGame(state, event, LOCAL_VIEWER);
+
+  return effects.reduce((acc, effect) => {
+    switch (effect.type) {
+      case 'broadcast':
+        return runLocalGame(acc, effect.event, pickWord);
+      case 'start_round': {
+        const started = runLocalGame(acc, { ...effect, type: 'round_started' }, pickWord);
+        return runLocalGame(started, { type: 'word_assigned', round: effect.round, word: pickWord() }, pickWord);
+      }
+      default:
+        return acc;
+    }
+  }, next);
+};
@@ -1,5 +1,7 @@
 import { create } from 'zustand';
-import { GameState, Player, Room, DrawingPath, ChatMessage, RoomSettings } from '../types/multiplayer';
+import { GameState, Player, Room, DrawingPath, ChatMessage, RoomSettings, RemovedReason, RoundResult, TeamNumber, WordCandidate } from '../types/multiplayer';
+import { nextTeam } from './gameEngine';
+import { MIN_FREE_FOR_ALL_PLAYERS } from './roomSettings';
 
 interface GameStore extends GameState {
   // Actions
@@ -11,10 +13,11 @@ interface GameStore extends GameState {
   setCurrentPlayer: (player: Player | null) => void;
   
   // Drawing
+  setDrawings: (drawings: DrawingPath[]) => void;
   addDrawing: (path: DrawingPath) => void;
   updateDrawing: (pathId: string, path: DrawingPath) => void;
   clearDrawings: () => void;
-  undoLastDrawing: () => void;
+  removeDrawing: (pathId: string) => void;
   
   // Chat
   addMessage: (message: ChatMessage) => void;
@@ -23,6 +26,10 @@ interface GameStore extends GameState {
   // Connection
   setConnected: (connected: boolean) => void;
   setError: (error: string | null) => void;
+  setRemovedReason: (reason: RemovedReason | null) => void;
+  addRoundResult: (result: RoundResult) => void;
+  clearRoundResults: () => void;
+  setWordChoices: (choices: WordCandidate[]) => void;
   
   // Game flow
   startGame: () => void;
@@ -41,6 +48,9 @@ const initialState: GameState = {
   messages: [],
   isConnected: false,
   error: null,
+  removedReason: null,
+  roundResults: [],
+  wordChoices: [],
 };
 
 export const useGameStore = create<GameStore>((set, get) => ({
@@ -66,6 +76,8 @@ export const useGameStore = create<GameStore>((set, get) => ({
   
   setCurrentPlayer: (player) => set({ currentPlayer: player }),
   
+  setDrawings: (drawings) => set({ drawings }),
+  
   addDrawing: (path) => set((state) => ({
     drawings: [...state.drawings.filter(d => d.id !== path.id), path],
   })),
@@ -77,8 +89,9 @@ export const useGameStore = create<GameStore>((set, get) => ({
   
   clearDrawings: () => set({ drawings: [] }),
   
-  undoLastDrawing: () => set((state) => ({
-    drawings: state.drawings.slice(0, -1),
+  // Undo is per stroke, so it can't just drop the last path
+  removeDrawing: (pathId) => set((state) => ({
+    drawings: state.drawings.filter(d => d.id !== pathId),
   })),
   
   addMessage: (message) => set((state) => ({
@@ -91,6 +104,17 @@ export const useGameStore = create<GameStore>((set, get) => ({
   
   setError: (error) => set({ error }),
   
+  setRemovedReason: (removedReason) => set({ removedReason }),
+  
+  // One result per round; a resent one replaces the old
+  addRoundResult: (result) => set((state) => ({
+    roundResults: [...state.roundResults.filter(r => r.round !== result.round), result],
+  })),
+  
+  clearRoundResults: () => set({ roundResults: [] }),
+  
+  setWordChoices: (wordChoices) => set({ wordChoices }),
+  
   startGame: () => set((state) => ({
     room: state.room ? { ...state.room, status: 'playing' as const } : null,
     drawings: [],
@@ -105,7 +129,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
     room: state.room ? { 
       ...state.room, 
       current_round: state.room.current_round + 1,
-      drawing_team: state.room.drawing_team === 1 ? 2 : 1,
+      drawing_team: nextTeam(state.room.drawing_team, state.room.settings.team_count) as TeamNumber,
     } : null,
     drawings: [],
   })),
@@ -114,11 +138,8 @@ export const useGameStore = create<GameStore>((set, get) => ({
 }));
 
 // Selectors
-export const selectTeam1Players = (state: GameStore) => 
-  state.players.filter(p => p.team === 1);
-
-export const selectTeam2Players = (state: GameStore) => 
-  state.players.filter(p => p.team === 2);
+export const selectTeamPlayers = (team: TeamNumber) => (state: GameStore) => 
+  state.players.filter(p => p.team === team);
 
 export const selectCurrentDrawer = (state: GameStore) => 
   state.players.find(p => p.is_drawing);
@@ -127,10 +148,14 @@ export const selectIsHost = (state: GameStore) =>
   state.currentPlayer?.is_host ?? false;
 
 export const selectCanStartGame = (state: GameStore) => {
-  const team1 = state.players.filter(p => p.team === 1);
-  const team2 = state.players.filter(p => p.team === 2);
   const allReady = state.players.every(p => p.is_ready);
-  return team1.length >= 1 && team2.length >= 1 && allReady && state.currentPlayer?.is_host;
+  if (state.room?.settings.mode === 'free_for_all') {
+    return state.players.length >= MIN_FREE_FOR_ALL_PLAYERS && allReady && state.currentPlayer?.is_host;
+  }
+  const teamCount = state.room?.settings.team_count ?? 2;
+  const everyTeamHasPlayers = Array.from({ length: teamCount }, (_, i) => i + 1)
+    .every(team => state.players.some(p => p.team === team));
+  return everyTeamHasPlayers && allReady && state.currentPlayer?.is_host;
 };
 
 export default useGameStore;
@@ -0,0 +1,59 @@
+/**
+ * Guess matching. The server has the final say (judge_guess() in
+ * supabase/schema.sql); this is the same logic in TypeScript, so change
+ * the two together (supabase/__tests__/guessMatch.test.ts checks they
+ * agree). The app only uses normalizeGuess; judgeGuess, editDistance and
+ * closeThreshold are here as that test's mirror of the SQL.
+ */
+
+export type GuessVerdict = 'correct' | 'close' | 'wrong';
+
+// Lower case, accents split off and dropped (NFD), and only letters and
+// digits kept, in any script, so "Fire-truck " and "firetruck" are the
+// same guess and "crème" is "creme"
+export const normalizeGuess = (input: string): string =>
+  input
+    .normalize('NFD')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '');
+
+// Levenshtein distance
+export const editDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr.push(Math.min(curr[j - 1] + 1, prev[j] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+// Typos that still count as close; none for short words, where "close"
+// would give the word away
+export const closeThreshold = (answer: string): number =>
+  answer.length <= 3 ? 0 : answer.length <= 6 ? 1 : 2;
+
+// The answer itself, or with a plural ending the answer doesn't have
+// ("horses" for "horse"). Nothing is taken off the answer, so "bu" isn't
+// "bus" and "grap" isn't "grapes".
+const sameWord = (guess: string, answer: string): boolean =>
+  [answer, `${answer}s`, `${answer}es`].includes(guess);
+
+// Judge a guess against a word and its aliases
+export const judgeGuess = (guess: string, word: string, aliases: string[] = []): GuessVerdict => {
+  const normalized = normalizeGuess(guess);
+  if (!normalized) return 'wrong';
+
+  let close = false;
+  for (const answer of [word, ...aliases].map(normalizeGuess)) {
+    if (sameWord(normalized, answer)) return 'correct';
+    const threshold = closeThreshold(answer);
+    if (Math.abs(normalized.length - answer.length) <= threshold && editDistance(normalized, answer) <= threshold) {
+      close = true;
+    }
+  }
+  return close ? 'close' : 'wrong';
+};
@@ -0,0 +1,282 @@
+import { supabase, generateRoomCode } from './supabase';
+import { DrawingPath, Player, Room } from '../types/multiplayer';
+import { DEFAULT_SETTINGS } from './roomSettings';
+import { GuessVerdict } from './guessMatch';
+
+/**
+ * Database side of a room (see supabase/schema.sql). The realtime channel
+ * carries the game; rooms and players are written through so joins can be
+ * checked, guesses validated and old rooms cleaned up.
+ */
+
+// rooms.current_word isn't readable by clients, so never select *
+const ROOM_COLUMNS =
+  'id, code, host_id, status, settings, current_round, total_rounds, drawing_team, round_start_time, banned_ids, locked, created_at';
+
+// Postgres unique_violation - rooms.code is UNIQUE
+const UNIQUE_VIOLATION = '23505';
+const MAX_CODE_ATTEMPTS = 5;
+
+const toRoom = (row: any): Room => ({
+  id: row.id,
+  code: row.code,
+  host_id: row.host_id,
+  status: row.status,
+  settings: { ...DEFAULT_SETTINGS, ...row.settings }, // Rooms from before a setting existed
+  current_round: row.current_round,
+  total_rounds: row.total_rounds,
+  current_word: null,
+  drawing_team: row.drawing_team,
+  round_start_time: row.round_start_time,
+  round_deadline: null, // Comes from the host (its clock) in sync_state
+  word_hash: null,
+  word_hint: null,
+  word_choice: null,
+  word_difficulty: null,
+  banned_ids: row.banned_ids ?? [],
+  locked: row.locked ?? false,
+  created_at: row.created_at,
+});
+
+// Insert a room under a fresh code, retrying if the code is already taken
+export const insertRoom = async (
+  room: Pick<Room, 'host_id' | 'settings' | 'total_rounds'>
+): Promise<Room> => {
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const { data, error } = await supabase
+      .from('rooms')
+      .insert({
+        code: generateRoomCode(),
+        host_id: room.host_id,
+        settings: room.settings,
+        total_rounds: room.total_rounds,
+      })
+      .select(ROOM_COLUMNS)
+      .single();
+
+    if (!error) return toRoom(data);
+    if (error.code !== UNIQUE_VIOLATION) throw error;
+  }
+  throw new Error('Could not find a free room code. Please try again.');
+};
+
+// Room for a join code, or null if there's no such room
+export const fetchRoomByCode = async (code: string): Promise<Room | null> => {
+  const { data, error } = await supabase
+    .from('rooms')
+    .select(ROOM_COLUMNS)
+    .eq('code', code)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toRoom(data) : null;
+};
+
+// Host: write status, round, drawing team and who's kept out through to the room row
+export const updateRoom = async (room: Room) => {
+  const { error } = await supabase
+    .from('rooms')
+    .update({
+      status: room.status,
+      settings: room.settings,
+      current_round: room.current_round,
+      total_rounds: room.total_rounds,
+      drawing_team: room.drawing_team,
+      banned_ids: room.banned_ids,
+      locked: room.locked,
+    })
+    .eq('id', room.id);
+
+  if (error) throw error;
+};
+
+// Join (or rejoin) a room as ourselves. The server works out the rest:
+// a rejoin keeps its team and score, and is_host comes from the room.
+export const upsertPlayer = async (player: Pick<Player, 'name' | 'is_ready'>, roomId: string) => {
+  const { error } = await supabase.rpc('save_player', {
+    p_room_id: roomId,
+    p_name: player.name,
+    p_is_ready: player.is_ready,
+  });
+
+  if (error) throw error;
+};
+
+// Host: write teams, scores and who's drawing through to the player rows
+// (team membership decides who may guess)
+export const updatePlayers = async (players: Player[], roomId: string) => {
+  if (players.length === 0) return;
+
+  const { error } = await supabase.rpc('save_players', {
+    p_room_id: roomId,
+    p_players: players.map(({ id, team, score, is_drawing }) => ({ id, team, score, is_drawing })),
+  });
+
+  if (error) throw error;
+};
+
+// What we last saved for a player in this room (restores team and score on rejoin)
+export const fetchPlayer = async (
+  playerId: string,
+  roomId: string
+): Promise<Pick<Player, 'team' | 'score' | 'is_drawing'> | null> => {
+  const { data, error } = await supabase
+    .from('players')
+    .select('team, score, is_drawing')
+    .eq('id', playerId)
+    .eq('room_id', roomId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Player left for good (closing the app only drops presence)
+export const deletePlayer = async (playerId: string) => {
+  const { error } = await supabase.from('players').delete().eq('id', playerId);
+  if (error) throw error;
+};
+
+// Check in, so others can tell we're still here (see transferHost)
+export const touchPlayer = async (roomId: string) => {
+  const { error } = await supabase.rpc('touch_player', { p_room_id: roomId });
+  if (error) throw error;
+};
+
+// We were elected host: claim the room. False if someone else already took
+// over, or the old host checked in too recently to count as gone.
+export const transferHost = async (roomId: string, oldHostId: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('transfer_host', {
+    p_room_id: roomId,
+    p_old_host_id: oldHostId,
+  });
+
+  if (error) throw error;
+  return data === true;
+};
+
+// Finished strokes are kept per room and round so anyone (re)joining
+// mid-round can replay the canvas without relying on the host's memory
+export const saveStroke = async (roomId: string, round: number, path: DrawingPath) => {
+  const { error } = await supabase.from('drawing_strokes').insert({
+    room_id: roomId,
+    round,
+    player_id: path.player_id,
+    stroke_data: path,
+  });
+
+  if (error) throw error;
+};
+
+export const deleteStroke = async (roomId: string, strokeId: string) => {
+  const { error } = await supabase
+    .from('drawing_strokes')
+    .delete()
+    .eq('room_id', roomId)
+    .eq('stroke_data->>id', strokeId);
+
+  if (error) throw error;
+};
+
+export const clearStrokes = async (roomId: string, round: number) => {
+  const { error } = await supabase
+    .from('drawing_strokes')
+    .delete()
+    .eq('room_id', roomId)
+    .eq('round', round);
+
+  if (error) throw error;
+};
+
+// Strokes for a round, in the order they were drawn
+export const fetchStrokes = async (roomId: string, round: number): Promise<DrawingPath[]> => {
+  const { data, error } = await supabase
+    .from('drawing_strokes')
+    .select('stroke_data')
+    .eq('room_id', roomId)
+    .eq('round', round)
+    .order('id');
+
+  if (error) throw error;
+  return (data ?? []).map(row => row.stroke_data as DrawingPath);
+};
+
+// Host: store this round's word (and its aliases) server-side so guesses
+// can be checked. Resolves to the round's start time (server clock).
+export const setRoundWord = async (
+  roomId: string,
+  round: number,
+  drawingTeam: number,
+  drawerId: string,
+  word: string,
+  aliases: string[] = []
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('set_round_word', {
+    p_room_id: roomId,
+    p_round: round,
+    p_drawing_team: drawingTeam,
+    p_drawer_id: drawerId,
+    p_word: word,
+    p_aliases: aliases,
+  });
+
+  if (error) throw error;
+  return data as string;
+};
+
+// Host: round is over, stop accepting guesses
+export const clearRoundWord = async (roomId: string) => {
+  const { error } = await supabase.rpc('clear_round_word', { p_room_id: roomId });
+
+  if (error) throw error;
+};
+
+// Guesser: the server decides whether this is correct. A correct guess
+// reaches every client as a chat_messages insert, see subscribeToGuesses;
+// 'close' only ever comes back to us. The server knows who we are.
+export const submitGuess = async (roomId: string, text: string): Promise<GuessVerdict> => {
+  const { data, error } = await supabase.rpc('submit_guess', {
+    p_room_id: roomId,
+    p_text: text,
+  });
+
+  if (error) throw error;
+  return data === 'correct' || data === 'close' ? data : 'wrong';
+};
+
+// Drawer: their team got it without typing it. Arrives like a correct
+// guess, from the drawer, with `manual` set. False if the server said no
+// (not the drawer, or already confirmed this round).
+export const confirmGuessed = async (roomId: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('confirm_guessed', { p_room_id: roomId });
+
+  if (error) throw error;
+  return data === true;
+};
+
+export interface ValidatedGuess {
+  player_id: string;
+  player_name: string;
+  text: string; // Always blank: the server never passes on a correct guess
+  manual: boolean; // See confirmGuessed
+  guess_rank: number | null; // 1 for the round's first correct guess, counted by the server
+  created_at: string; // Server clock, compared with rooms.round_start_time
+}
+
+// Listen for guesses the server marked correct
+export const subscribeToGuesses = (
+  room: Pick<Room, 'id' | 'code'>,
+  onCorrectGuess: (guess: ValidatedGuess) => void
+) =>
+  supabase
+    .channel(`room:${room.code}:guesses`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'chat_messages', filter: `room_id=eq.${room.id}` },
+      ({ new: message }) => {
+        if (message.is_correct_guess) {
+          onCorrectGuess(message as ValidatedGuess);
+        }
+      }
+    )
+    .subscribe();
@@ -0,0 +1,107 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Difficulty, GameMode, RoomSettings, ScoringPreset, WordCategory } from '../types/multiplayer';
+import { SCORING_PRESET_NAMES } from './scoring';
+import { readRoomWordPack } from './wordPacks';
+import { CATEGORY_IDS } from './words';
+
+/**
+ * Room settings the host can edit in the lobby, with their allowed ranges.
+ * The host's last-used settings are remembered for the next room.
+ */
+
+const LAST_SETTINGS_KEY = 'lastRoomSettings';
+
+export const DEFAULT_SETTINGS: RoomSettings = {
+  timer_seconds: 60,
+  difficulty: 'medium',
+  max_players: 8,
+  allow_tag_team: true,
+  team_count: 2,
+  mode: 'teams',
+  scoring: 'classic',
+  hint_count: 2,
+  word_choices: 3,
+  mixed_difficulty: false,
+  word_pack: null,
+  categories: [],
+  kid_safe: false,
+};
+
+export const DEFAULT_TOTAL_ROUNDS = 10;
+
+export const SETTINGS_LIMITS = {
+  timer_seconds: { min: 30, max: 180, step: 15 },
+  max_players: { min: 4, max: 16, step: 1 },
+  total_rounds: { min: 2, max: 20, step: 2 },
+  team_count: { min: 2, max: 4, step: 1 },
+  hint_count: { min: 0, max: 3, step: 1 },
+  word_choices: { min: 1, max: 4, step: 1 },
+};
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+export const GAME_MODES: GameMode[] = ['teams', 'free_for_all'];
+
+// Free-for-all needs a drawer and at least two guessers
+export const MIN_FREE_FOR_ALL_PLAYERS = 3;
+
+// What the host edits: the room's settings plus its round count
+export interface LobbySettings {
+  settings: RoomSettings;
+  total_rounds: number;
+}
+
+const clampTo = (value: unknown, { min, max }: { min: number; max: number }, fallback: number): number => {
+  const n = Math.round(Number(value));
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+};
+
+// Bring settings (from the editor, the wire or storage) into range
+export const validateSettings = (input: Partial<LobbySettings>): LobbySettings => {
+  const settings: Partial<RoomSettings> = input.settings ?? {};
+  const team_count = clampTo(settings.team_count, SETTINGS_LIMITS.team_count, DEFAULT_SETTINGS.team_count) as RoomSettings['team_count'];
+  const mode = GAME_MODES.includes(settings.mode as GameMode) ? (settings.mode as GameMode) : DEFAULT_SETTINGS.mode;
+  // Room for two players on every team, or a free-for-all's minimum
+  const minPlayers = mode === 'free_for_all' ? MIN_FREE_FOR_ALL_PLAYERS : team_count * 2;
+  return {
+    settings: {
+      timer_seconds: clampTo(settings.timer_seconds, SETTINGS_LIMITS.timer_seconds, DEFAULT_SETTINGS.timer_seconds),
+      difficulty: DIFFICULTIES.includes(settings.difficulty as Difficulty)
+        ? (settings.difficulty as Difficulty)
+        : DEFAULT_SETTINGS.difficulty,
+      max_players: Math.max(minPlayers, clampTo(settings.max_players, SETTINGS_LIMITS.max_players, DEFAULT_SETTINGS.max_players)),
+      allow_tag_team: typeof settings.allow_tag_team === 'boolean' ? settings.allow_tag_team : DEFAULT_SETTINGS.allow_tag_team,
+      team_count,
+      mode,
+      scoring: SCORING_PRESET_NAMES.includes(settings.scoring as ScoringPreset)
+        ? (settings.scoring as ScoringPreset)
+        : DEFAULT_SETTINGS.scoring,
+      hint_count: clampTo(settings.hint_count, SETTINGS_LIMITS.hint_count, DEFAULT_SETTINGS.hint_count),
+      word_choices: clampTo(settings.word_choices, SETTINGS_LIMITS.word_choices, DEFAULT_SETTINGS.word_choices),
+      mixed_difficulty: typeof settings.mixed_difficulty === 'boolean' ? settings.mixed_difficulty : DEFAULT_SETTINGS.mixed_difficulty,
+      word_pack: readRoomWordPack(settings.word_pack),
+      categories: Array.isArray(settings.categories)
+        ? CATEGORY_IDS.filter(id => (settings.categories as WordCategory[]).includes(id))
+        : DEFAULT_SETTINGS.categories,
+      kid_safe: typeof settings.kid_safe === 'boolean' ? settings.kid_safe : DEFAULT_SETTINGS.kid_safe,
+    },
+    total_rounds: clampTo(input.total_rounds, SETTINGS_LIMITS.total_rounds, DEFAULT_TOTAL_ROUNDS),
+  };
+};
+
+export const loadLastSettings = async (): Promise<LobbySettings> => {
+  try {
+    const saved = await AsyncStorage.getItem(LAST_SETTINGS_KEY);
+    return validateSettings(saved ? JSON.parse(saved) : {});
+  } catch (e) {
+    console.error('Failed to load room settings:', e);
+    return validateSettings({});
+  }
+};
+
+export const saveLastSettings = async (lobbySettings: LobbySettings) => {
+  try {
+    await AsyncStorage.setItem(LAST_SETTINGS_KEY, JSON.stringify(lobbySettings));
+  } catch (e) {
+    console.error('Failed to save room settings:', e);
+  }
+};
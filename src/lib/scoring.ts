@@ -0,0 +1,114 @@
+import { Difficulty, GameMode, PointsBreakdown, RoundResult, ScoreAward, ScoringPreset, TeamNumber } from '../types/multiplayer';
+
+/**
+ * Points for correct guesses. Guessers earn more the sooner they get it
+ * (measured from round_start_time, both times from the server, so every
+ * client works out the same numbers), the first three in a free-for-all get
+ * a bonus, and the drawer earns a share for every player who got it.
+ * When the drawer chose from mixed difficulties, harder words pay more.
+ */
+
+export interface ScoringRules {
+  label: string;
+  guesserMax: number; // Guessing right as the round starts
+  guesserMin: number; // Guessing as time runs out
+  rankBonuses: number[]; // Free-for-all: 1st, 2nd, 3rd correct guesser
+  drawerPerGuesser: number;
+}
+
+export const SCORING_PRESETS: Record<ScoringPreset, ScoringRules> = {
+  classic: { label: '⭐ Classic', guesserMax: 100, guesserMin: 20, rankBonuses: [30, 20, 10], drawerPerGuesser: 40 },
+  speed: { label: '⚡ Speed', guesserMax: 150, guesserMin: 0, rankBonuses: [50, 25, 10], drawerPerGuesser: 25 },
+  // One point each, whenever it's guessed
+  simple: { label: '1️⃣ Simple', guesserMax: 1, guesserMin: 1, rankBonuses: [], drawerPerGuesser: 1 },
+};
+
+export const SCORING_PRESET_NAMES = Object.keys(SCORING_PRESETS) as ScoringPreset[];
+
+// Points multiplier for a word from a mixed-difficulty choice
+export const DIFFICULTY_MULTIPLIERS: Record<Difficulty, number> = { easy: 1, medium: 1.5, hard: 2 };
+
+export const wordMultiplier = (wordDifficulty: Difficulty | null): number =>
+  wordDifficulty ? DIFFICULTY_MULTIPLIERS[wordDifficulty] : 1;
+
+export const totalPoints = (breakdown: PointsBreakdown): number =>
+  breakdown.base + breakdown.time_bonus + breakdown.rank_bonus + breakdown.difficulty_bonus;
+
+// The extra a harder word earns on top of the rest
+const withDifficultyBonus = (breakdown: PointsBreakdown, multiplier: number): PointsBreakdown => ({
+  ...breakdown,
+  difficulty_bonus: Math.round(totalPoints(breakdown) * (multiplier - 1)),
+});
+
+// Milliseconds from round start to the guess; 0 if either time is unknown
+export const elapsedSince = (roundStartTime: string | null, guessedAt: string | null | undefined): number => {
+  const start = roundStartTime ? Date.parse(roundStartTime) : NaN;
+  const at = guessedAt ? Date.parse(guessedAt) : NaN;
+  return Number.isFinite(start) && Number.isFinite(at) ? Math.max(0, at - start) : 0;
+};
+
+export interface GuessTiming {
+  elapsedMs: number;
+  timerMs: number;
+  rank: number; // 1 for the round's first correct guess
+  mode: GameMode;
+  wordDifficulty: Difficulty | null; // See Room.word_difficulty
+}
+
+// Guesser: the minimum, plus a time bonus that shrinks linearly to nothing
+// at the deadline, plus the free-for-all podium bonus
+export const scoreGuesser = (rules: ScoringRules, { elapsedMs, timerMs, rank, mode }: GuessTiming): PointsBreakdown => {
+  const timeLeft = timerMs > 0 ? Math.min(1, Math.max(0, 1 - elapsedMs / timerMs)) : 0;
+  return {
+    base: rules.guesserMin,
+    time_bonus: Math.round((rules.guesserMax - rules.guesserMin) * timeLeft),
+    rank_bonus: mode === 'free_for_all' ? rules.rankBonuses[rank - 1] ?? 0 : 0,
+    difficulty_bonus: 0,
+  };
+};
+
+// Drawer: the same share for every player who guessed it
+export const scoreDrawer = (rules: ScoringRules, wordDifficulty: Difficulty | null = null): PointsBreakdown =>
+  withDifficultyBonus({ base: rules.drawerPerGuesser, time_bonus: 0, rank_bonus: 0, difficulty_bonus: 0 }, wordMultiplier(wordDifficulty));
+
+// Awards for one correct guess: the guesser's and, if someone is drawing, the drawer's
+export const awardGuess = (
+  rules: ScoringRules,
+  guesserId: string,
+  drawerId: string | null,
+  timing: GuessTiming
+): ScoreAward[] => {
+  const time_taken = Math.round(timing.elapsedMs / 1000);
+  const guesser = withDifficultyBonus(scoreGuesser(rules, timing), wordMultiplier(timing.wordDifficulty));
+  const awards: ScoreAward[] = [
+    { player_id: guesserId, role: 'guesser', points: totalPoints(guesser), time_taken, breakdown: guesser },
+  ];
+  if (drawerId) {
+    const drawer = scoreDrawer(rules, timing.wordDifficulty);
+    awards.push({ player_id: drawerId, role: 'drawer', points: totalPoints(drawer), time_taken, breakdown: drawer });
+  }
+  return awards;
+};
+
+export const pointsFor = (awards: ScoreAward[], role: ScoreAward['role']): number =>
+  awards.filter(a => a.role === role).reduce((sum, a) => sum + a.points, 0);
+
+// What a round paid out. In Pictionary the drawing team also guesses.
+export const summarizeRound = (
+  round: number,
+  word: string,
+  drawingTeam: TeamNumber,
+  awards: ScoreAward[]
+): RoundResult => {
+  const first = awards.find(a => a.role === 'guesser');
+  return {
+    round,
+    word,
+    drawing_team: drawingTeam,
+    guessing_team: drawingTeam,
+    guessed_by: first?.player_id ?? null,
+    time_taken: first?.time_taken ?? null,
+    points_awarded: awards.reduce((sum, a) => sum + a.points, 0),
+    awards,
+  };
+};
@@ -0,0 +1,80 @@
+/**
+ * Stroke streaming for online drawing. A stroke goes out as:
+ *
+ *   start   - first point plus the stroke's color and brush size (sent once)
+ *   points  - batches of STROKE_BATCH_MS worth of touch points, each batch
+ *             numbered and delta-encoded from the point before it
+ *   end     - how many batches the stroke had
+ *
+ * Every message names its stroke, so strokes from several players can be
+ * in flight at once. Receivers reassemble batches in order with receiveBatch.
+ */
+
+export const STROKE_BATCH_MS = 50;
+
+// Unique across devices: used as the DrawingPath id everywhere
+export const createStrokeId = (): string =>
+  `stroke_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// [dx, dy, dx, dy, ...] - each point relative to the one before it
+export const encodeDeltas = (points: Point[], from: Point): number[] => {
+  const deltas: number[] = [];
+  let prev = from;
+  for (const point of points) {
+    deltas.push(point.x - prev.x, point.y - prev.y);
+    prev = point;
+  }
+  return deltas;
+};
+
+export const decodeDeltas = (deltas: number[], from: Point): Point[] => {
+  const points: Point[] = [];
+  let prev = from;
+  for (let i = 0; i + 1 < deltas.length; i += 2) {
+    prev = { x: prev.x + deltas[i], y: prev.y + deltas[i + 1] };
+    points.push(prev);
+  }
+  return points;
+};
+
+// Receiver's view of a stroke still coming in
+export interface StrokeAssembly {
+  nextBatch: number;
+  last: Point; // Point the next batch's deltas start from
+  pending: Record<number, number[]>; // Batches that arrived early
+}
+
+export const createStrokeAssembly = (start: Point): StrokeAssembly => ({
+  nextBatch: 0,
+  last: start,
+  pending: {},
+});
+
+// Add a batch. Returns the points that can be drawn now, in order - none if
+// the batch arrived ahead of one we're still waiting for.
+export const receiveBatch = (
+  assembly: StrokeAssembly,
+  batch: number,
+  deltas: number[]
+): { assembly: StrokeAssembly; points: Point[] } => {
+  if (batch < assembly.nextBatch) return { assembly, points: [] }; // Duplicate
+
+  const pending = { ...assembly.pending, [batch]: deltas };
+  const points: Point[] = [];
+  let { nextBatch, last } = assembly;
+
+  while (pending[nextBatch]) {
+    const decoded = decodeDeltas(pending[nextBatch], last);
+    delete pending[nextBatch];
+    points.push(...decoded);
+    if (decoded.length > 0) last = decoded[decoded.length - 1];
+    nextBatch++;
+  }
+
+  return { assembly: { nextBatch, last, pending }, points };
+};
@@ -36,9 +36,40 @@ export const generateRoomCode = (): string => {
   return code;
 };
 
-// Generate a unique player ID
-export const generatePlayerId = (): string => {
-  return `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+// Per-player channel for messages only one client should see (e.g. the
+// secret word). It's private: realtime.messages policies (schema.sql) let
+// only that player read it, and only players in the room send to it.
+export const getPlayerInboxName = (roomCode: string, playerId: string): string =>
+  `room:${roomCode}:inbox:${playerId}`;
+
+export const playerInbox = (roomCode: string, playerId: string) =>
+  supabase.channel(getPlayerInboxName(roomCode, playerId), { config: { private: true } });
+
+// Send a targeted message to one player's inbox without joining it
+export const sendToPlayer = async (
+  roomCode: string,
+  playerId: string,
+  event: string,
+  payload: Record<string, any>
+): Promise<boolean> => {
+  const channel = playerInbox(roomCode, playerId);
+  try {
+    const result = await channel.httpSend(event, payload);
+    return result.success;
+  } finally {
+    await supabase.removeChannel(channel);
+  }
+};
+
+// Our player ID is our auth user's ID (an anonymous sign-in, kept in
+// AsyncStorage), so the database can tell who is asking (auth.uid())
+export const getPlayerId = async (): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (session) return session.user.id;
+
+  const { data, error } = await supabase.auth.signInAnonymously();
+  if (error || !data.user) throw error ?? new Error('Anonymous sign-in failed');
+  return data.user.id;
 };
 
 export default supabase;
@@ -0,0 +1,113 @@
+/**
+ * Teams for online rooms. Assignment functions return the complete
+ * assignment (player ID -> team, teams numbered from 1) so the host can send
+ * it out as one event and every lobby updates at once.
+ */
+
+// How each team looks, by team number - 1
+export const TEAM_INFO = [
+  { name: 'Blue', emoji: '🔵', color: '#4ECDC4' },
+  { name: 'Red', emoji: '🔴', color: '#FF6B6B' },
+  { name: 'Green', emoji: '🟢', color: '#96CEB4' },
+  { name: 'Yellow', emoji: '🟡', color: '#FFE66D' },
+];
+
+export const getTeamInfo = (team: number) => TEAM_INFO[team - 1] ?? TEAM_INFO[0];
+
+export const teamNumbers = (teamCount: number): number[] =>
+  Array.from({ length: teamCount }, (_, i) => i + 1);
+
+export interface TeamMember {
+  id: string;
+  team: number | null;
+}
+
+export type TeamAssignment = Record<string, number>;
+
+const countByTeam = (assignment: TeamAssignment, teamCount: number): Record<number, number> => {
+  const counts: Record<number, number> = {};
+  teamNumbers(teamCount).forEach(team => { counts[team] = 0; });
+  Object.values(assignment).forEach(team => { counts[team]++; });
+  return counts;
+};
+
+// Team with the fewest players (lowest number on ties)
+const smallestTeam = (counts: Record<number, number>): number =>
+  Object.keys(counts).map(Number).reduce((best, team) => (counts[team] < counts[best] ? team : best));
+
+const largestTeam = (counts: Record<number, number>): number =>
+  Object.keys(counts).map(Number).reduce((best, team) => (counts[team] > counts[best] ? team : best));
+
+// Random teams, as even as the head count allows
+export const shuffleTeams = (players: TeamMember[], teamCount = 2): TeamAssignment => {
+  const ids = players.map(p => p.id);
+  for (let i = ids.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [ids[i], ids[j]] = [ids[j], ids[i]];
+  }
+
+  const assignment: TeamAssignment = {};
+  ids.forEach((id, i) => { assignment[id] = (i % teamCount) + 1; });
+  return assignment;
+};
+
+// Unassigned players join the smallest team; everyone else stays put
+export const placeUnassigned = (players: TeamMember[], teamCount = 2): TeamAssignment => {
+  const assignment: TeamAssignment = {};
+  players.forEach(p => {
+    if (p.team !== null && p.team <= teamCount) assignment[p.id] = p.team;
+  });
+
+  const counts = countByTeam(assignment, teamCount);
+  players.forEach(p => {
+    if (assignment[p.id] !== undefined) return;
+    const team = smallestTeam(counts);
+    assignment[p.id] = team;
+    counts[team]++;
+  });
+  return assignment;
+};
+
+// Even team sizes. Without `skill`, moves as few players as it can. With
+// `skill` (e.g. past scores), redrafts everyone so the teams' totals come
+// out close as well.
+export const balanceTeams = (
+  players: TeamMember[],
+  teamCount = 2,
+  skill?: Record<string, number>
+): TeamAssignment => {
+  if (skill) {
+    const ranked = [...players].sort((a, b) => (skill[b.id] ?? 0) - (skill[a.id] ?? 0));
+    const assignment: TeamAssignment = {};
+    const counts = countByTeam(assignment, teamCount);
+    const totals: Record<number, number> = {};
+    teamNumbers(teamCount).forEach(team => { totals[team] = 0; });
+
+    // Strongest remaining player goes to the weakest of the smallest teams
+    ranked.forEach(p => {
+      const fewest = Math.min(...Object.values(counts));
+      const team = teamNumbers(teamCount)
+        .filter(t => counts[t] === fewest)
+        .reduce((best, t) => (totals[t] < totals[best] ? t : best));
+      assignment[p.id] = team;
+      counts[team]++;
+      totals[team] += skill[p.id] ?? 0;
+    });
+    return assignment;
+  }
+
+  const assignment = placeUnassigned(players, teamCount);
+  const counts = countByTeam(assignment, teamCount);
+  for (;;) {
+    const from = largestTeam(counts);
+    const to = smallestTeam(counts);
+    if (counts[from] - counts[to] <= 1) break;
+
+    const mover = players.find(p => assignment[p.id] === from);
+    if (!mover) break;
+    assignment[mover.id] = to;
+    counts[from]--;
+    counts[to]++;
+  }
+  return assignment;
+};
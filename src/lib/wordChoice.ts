@@ -0,0 +1,24 @@
+import { Difficulty, RoomSettings } from '../types/multiplayer';
+import { DIFFICULTIES } from './roomSettings';
+
+/**
+ * The drawer's word choice at the start of a turn. The host picks the
+ * candidates and sends them to the drawer's inbox; the pick goes back to
+ * the host's inbox, and only then does the round (and its clock) start.
+ * If the drawer doesn't pick in time, the host picks for them.
+ */
+
+export const WORD_CHOICE_MS = 10000;
+// Host waits a little longer, for a pick made at the last moment
+export const WORD_CHOICE_GRACE_MS = 1500;
+
+// One word from each tier in turn, rather than all from the room's difficulty
+// (custom packs have no tiers)
+export const offersMixedWords = (settings: RoomSettings): boolean =>
+  settings.mixed_difficulty && settings.word_choices > 1 && !settings.word_pack;
+
+// Tier of each word to offer
+export const candidateDifficulties = (settings: RoomSettings): Difficulty[] =>
+  Array.from({ length: settings.word_choices }, (_, i) =>
+    offersMixedWords(settings) ? DIFFICULTIES[i % DIFFICULTIES.length] : settings.difficulty
+  );
@@ -0,0 +1,40 @@
+/**
+ * Letter hints for guessers. From round start they see the word's shape
+ * (a blank per letter, spaces and hyphens as they are); the host then
+ * reveals single letters as the clock runs down. Only the host and the
+ * drawer know the word, everyone else only ever gets the shape and the
+ * letters revealed so far.
+ */
+
+export const HINT_BLANK = '_';
+
+const isLetter = (c: string) => c.toLowerCase() !== c.toUpperCase() || (c >= '0' && c <= '9');
+
+export const wordPattern = (word: string): string =>
+  word.split('').map(c => (isLetter(c) ? HINT_BLANK : c)).join('');
+
+// When to reveal `count` letters: evenly spread over the round,
+// e.g. two hints in a 60s round come at 20s and 40s
+export const hintTimes = (timerMs: number, count: number): number[] =>
+  Array.from({ length: count }, (_, i) => Math.round((timerMs * (i + 1)) / (count + 1)));
+
+// A random still-hidden letter to reveal, or null once half the word is
+// showing (the rest is for the guessers)
+export const pickHintIndex = (word: string, hint: string, random = Math.random): number | null => {
+  const letters = word.split('').filter(isLetter).length;
+  const hidden = hint
+    .split('')
+    .map((c, i) => (c === HINT_BLANK && isLetter(word[i] ?? '') ? i : -1))
+    .filter(i => i !== -1);
+  if (hidden.length === 0 || hidden.length <= Math.ceil(letters / 2)) return null;
+  return hidden[Math.floor(random() * hidden.length)];
+};
+
+export const revealLetter = (hint: string, index: number, letter: string): string =>
+  index >= 0 && index < hint.length && hint[index] === HINT_BLANK
+    ? hint.slice(0, index) + letter.charAt(0) + hint.slice(index + 1)
+    : hint;
+
+// For display: "_ _ T   _ _ _" (letters spaced out, words further apart)
+export const formatHint = (hint: string): string =>
+  hint.toUpperCase().split('').map(c => (c === ' ' ? '  ' : c)).join(' ');
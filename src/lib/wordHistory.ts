@@ -0,0 +1,114 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Words played in earlier games, so the picker can prefer ones the group
+ * hasn't seen lately. Kept on the device, per host: the host picks a room's
+ * words, so it's their history that counts (local games have their own).
+ * How much is remembered is a device setting: the last so many words, or
+ * the last so many days.
+ */
+
+const HISTORY_KEY_PREFIX = 'wordHistory:';
+const HISTORY_SETTINGS_KEY = 'wordHistorySettings';
+
+// History for pass-and-play games on this device
+export const LOCAL_HISTORY_KEY = 'local';
+
+export interface PlayedWord {
+  word: string;
+  played_at: number; // ms
+}
+
+export type HistoryMode = 'words' | 'days';
+
+export interface WordHistorySettings {
+  mode: HistoryMode;
+  limit: number; // Words, or days, to remember
+}
+
+export const HISTORY_LIMITS: Record<HistoryMode, number[]> = {
+  words: [100, 250, 500, 1000],
+  days: [1, 7, 30, 90],
+};
+
+// Where each mode starts when picked
+export const DEFAULT_HISTORY_LIMITS: Record<HistoryMode, number> = { words: 500, days: 7 };
+
+export const DEFAULT_HISTORY_SETTINGS: WordHistorySettings = { mode: 'words', limit: DEFAULT_HISTORY_LIMITS.words };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Even by days, storage shouldn't grow without end
+const MAX_HISTORY_WORDS = 5000;
+
+const historyKey = (host: string) => `${HISTORY_KEY_PREFIX}${host}`;
+
+// Just what the settings say to remember, oldest first
+export const trimHistory = (
+  history: PlayedWord[],
+  settings: WordHistorySettings,
+  now = Date.now()
+): PlayedWord[] => {
+  const kept = settings.mode === 'days'
+    ? history.filter(p => now - p.played_at < settings.limit * DAY_MS)
+    : history.slice(-settings.limit);
+  return kept.slice(-MAX_HISTORY_WORDS);
+};
+
+export const recentWords = (history: PlayedWord[]): Set<string> => new Set(history.map(p => p.word));
+
+// How much of a pack has been played: distinct words from it in the history
+export const packCoverage = (words: string[], history: PlayedWord[]): { played: number; total: number } => {
+  const seen = recentWords(history);
+  const unique = new Set(words);
+  return { played: [...unique].filter(w => seen.has(w)).length, total: unique.size };
+};
+
+const readSettings = (input: unknown): WordHistorySettings => {
+  const settings = input as Partial<WordHistorySettings> | null;
+  const mode = settings?.mode && settings.mode in HISTORY_LIMITS ? settings.mode : DEFAULT_HISTORY_SETTINGS.mode;
+  const limit = HISTORY_LIMITS[mode].includes(settings?.limit as number)
+    ? (settings?.limit as number)
+    : DEFAULT_HISTORY_LIMITS[mode];
+  return { mode, limit };
+};
+
+export const loadHistorySettings = async (): Promise<WordHistorySettings> => {
+  try {
+    const saved = await AsyncStorage.getItem(HISTORY_SETTINGS_KEY);
+    return readSettings(saved ? JSON.parse(saved) : null);
+  } catch (e) {
+    console.error('Failed to load word history settings:', e);
+    return DEFAULT_HISTORY_SETTINGS;
+  }
+};
+
+export const saveHistorySettings = async (settings: WordHistorySettings) => {
+  await AsyncStorage.setItem(HISTORY_SETTINGS_KEY, JSON.stringify(readSettings(settings)));
+};
+
+const readHistory = async (host: string): Promise<PlayedWord[]> => {
+  const saved = await AsyncStorage.getItem(historyKey(host));
+  return saved ? (JSON.parse(saved) as PlayedWord[]) : [];
+};
+
+export const loadWordHistory = async (host: string): Promise<PlayedWord[]> => {
+  try {
+    const [history, settings] = await Promise.all([readHistory(host), loadHistorySettings()]);
+    return trimHistory(history, settings);
+  } catch (e) {
+    console.error('Failed to load word history:', e);
+    return [];
+  }
+};
+
+// Note a round's word; returns the history as now remembered
+export const recordPlayedWord = async (host: string, word: string): Promise<PlayedWord[]> => {
+  const [history, settings] = await Promise.all([readHistory(host), loadHistorySettings()]);
+  const next = trimHistory([...history, { word, played_at: Date.now() }], settings);
+  await AsyncStorage.setItem(historyKey(host), JSON.stringify(next));
+  return next;
+};
+
+export const clearWordHistory = async (host: string) => {
+  await AsyncStorage.removeItem(historyKey(host));
+};
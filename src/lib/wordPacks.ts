@@ -0,0 +1,186 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RoomWordPack } from '../types/multiplayer';
+import { BUILT_IN_PACKS } from './words';
+import { reportPackProblems } from './wordValidation';
+
+/**
+ * Custom word lists ("packs"). Players make their own, edit them in the
+ * app, and move them between devices as JSON, CSV or plain text. Packs
+ * live on the device; a host's chosen pack travels to the room inside its
+ * settings.
+ */
+
+const WORD_PACKS_KEY = 'customWordPacks';
+
+export interface WordPack extends RoomWordPack {
+  updated_at: string;
+}
+
+export type WordPackFormat = 'json' | 'csv' | 'text';
+
+export const WORD_PACK_FORMATS: WordPackFormat[] = ['json', 'csv', 'text'];
+
+// Enough for a game, and small enough to send round the room
+export const MIN_PACK_WORDS = 5;
+export const MAX_PACK_WORDS = 500;
+export const MAX_WORD_LENGTH = 30;
+export const MAX_PACK_NAME_LENGTH = 40;
+
+const createPackId = (): string => `pack_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// Lower case, single spaces, no blanks or repeats, nothing too long
+export const cleanWords = (words: string[]): string[] => {
+  const seen = new Set<string>();
+  return words
+    .map(w => w.toLowerCase().replace(/\s+/g, ' ').trim())
+    .filter(w => {
+      if (!w || w.length > MAX_WORD_LENGTH || seen.has(w)) return false;
+      seen.add(w);
+      return true;
+    })
+    .slice(0, MAX_PACK_WORDS);
+};
+
+export const cleanPackName = (name: string): string =>
+  name.replace(/\s+/g, ' ').trim().slice(0, MAX_PACK_NAME_LENGTH);
+
+// Why a pack can't be saved, or null if it can
+export const checkWordPack = (name: string, words: string[]): string | null => {
+  if (!cleanPackName(name)) return 'Give the list a name.';
+  if (cleanWords(words).length < MIN_PACK_WORDS) return `Add at least ${MIN_PACK_WORDS} different words.`;
+  return null;
+};
+
+export const createWordPack = (name: string, words: string[]): WordPack => ({
+  id: createPackId(),
+  name: cleanPackName(name),
+  words: cleanWords(words),
+  updated_at: new Date().toISOString(),
+});
+
+// What the room gets: the list without its local bookkeeping
+export const toRoomWordPack = ({ id, name, words }: RoomWordPack): RoomWordPack => ({ id, name, words });
+
+export const loadWordPacks = async (): Promise<WordPack[]> => {
+  try {
+    const saved = await AsyncStorage.getItem(WORD_PACKS_KEY);
+    const packs = saved ? (JSON.parse(saved) as WordPack[]) : [];
+    reportPackProblems(BUILT_IN_PACKS, packs);
+    return packs;
+  } catch (e) {
+    console.error('Failed to load word packs:', e);
+    return [];
+  }
+};
+
+const storeWordPacks = async (packs: WordPack[]) => {
+  await AsyncStorage.setItem(WORD_PACKS_KEY, JSON.stringify(packs));
+};
+
+// Add a pack, or replace the one with the same ID
+export const saveWordPack = async (pack: WordPack): Promise<WordPack[]> => {
+  const packs = await loadWordPacks();
+  const saved = { ...pack, name: cleanPackName(pack.name), words: cleanWords(pack.words), updated_at: new Date().toISOString() };
+  const next = packs.some(p => p.id === pack.id)
+    ? packs.map(p => (p.id === pack.id ? saved : p))
+    : [...packs, saved];
+  await storeWordPacks(next);
+  return next;
+};
+
+export const deleteWordPack = async (id: string): Promise<WordPack[]> => {
+  const next = (await loadWordPacks()).filter(p => p.id !== id);
+  await storeWordPacks(next);
+  return next;
+};
+
+// One word per line
+export const parseWordLines = (text: string): string[] => text.split(/\r?\n/);
+
+// Guess the format of pasted or imported text
+export const detectFormat = (text: string): WordPackFormat => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'json';
+  if (trimmed.includes(',')) return 'csv';
+  return 'text';
+};
+
+// Split CSV rows into cells; quoted cells may hold commas and "" escapes
+const parseCsvCells = (text: string): string[] =>
+  parseWordLines(text).flatMap(line => {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const c = line[i];
+      if (quoted) {
+        if (c === '"' && line[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (c === '"') {
+          quoted = false;
+        } else {
+          cell += c;
+        }
+      } else if (c === '"') {
+        quoted = true;
+      } else if (c === ',') {
+        cells.push(cell);
+        cell = '';
+      } else {
+        cell += c;
+      }
+    }
+    cells.push(cell);
+    return cells;
+  });
+
+// Read a pack from JSON ({ name, words } or a bare array), CSV (every cell
+// is a word; a "word" header is skipped) or plain text (one word per line).
+// Words come back as written, so the import can say what saving will tidy.
+// Throws if the text can't be read as the format.
+export const parseWordPack = (
+  text: string,
+  format: WordPackFormat = detectFormat(text)
+): { name: string | null; words: string[] } => {
+  switch (format) {
+    case 'json': {
+      const data = JSON.parse(text);
+      const words = Array.isArray(data) ? data : data?.words;
+      if (!Array.isArray(words)) throw new Error('Expected a list of words');
+      return {
+        name: typeof data?.name === 'string' ? cleanPackName(data.name) || null : null,
+        words: words.filter((w: unknown): w is string => typeof w === 'string'),
+      };
+    }
+    case 'csv': {
+      const cells = parseCsvCells(text);
+      if (cells[0]?.trim().toLowerCase() === 'word') cells.shift();
+      return { name: null, words: cells };
+    }
+    case 'text':
+      return { name: null, words: parseWordLines(text) };
+  }
+};
+
+const csvCell = (word: string): string => (/[",]/.test(word) ? `"${word.replace(/"/g, '""')}"` : word);
+
+export const exportWordPack = (pack: RoomWordPack, format: WordPackFormat): string => {
+  switch (format) {
+    case 'json':
+      return JSON.stringify({ name: pack.name, words: pack.words }, null, 2);
+    case 'csv':
+      return ['word', ...pack.words.map(csvCell)].join('\n');
+    case 'text':
+      return pack.words.join('\n');
+  }
+};
+
+// A pack from the wire or storage, cleaned up; null if it isn't one or is
+// too small to play with
+export const readRoomWordPack = (input: unknown): RoomWordPack | null => {
+  const pack = input as Partial<RoomWordPack> | null | undefined;
+  if (!pack || typeof pack.id !== 'string' || typeof pack.name !== 'string' || !Array.isArray(pack.words)) return null;
+  const words = cleanWords(pack.words.filter((w: unknown): w is string => typeof w === 'string'));
+  return words.length >= MIN_PACK_WORDS ? { id: pack.id, name: cleanPackName(pack.name), words } : null;
+};
@@ -0,0 +1,83 @@
+import { Difficulty, PackWord, RoomSettings, WordCategory } from '../types/multiplayer';
+import { BUILT_IN_PACKS } from './words';
+
+/**
+ * Picking a round's word. The pool is either the built-in words narrowed by
+ * difficulty, category and kid-safety, or the host's custom list. Words
+ * already played this game are skipped until the pool runs dry, and words
+ * from earlier games (lib/wordHistory.ts) only come up once the rest have.
+ */
+
+export interface WordFilter {
+  difficulty: Difficulty | 'mixed'; // mixed: any tier
+  categories: WordCategory[]; // Empty: any topic
+  kidSafe: boolean;
+}
+
+// Fewer matches than this and the filter is loosened (see filterWords)
+export const MIN_POOL_SIZE = 10;
+
+const BUILT_IN_WORDS: PackWord[] = BUILT_IN_PACKS.flatMap(p => p.words);
+
+// One entry per word, the first one wins
+const uniqueWords = (entries: PackWord[]): PackWord[] => {
+  const seen = new Set<string>();
+  return entries.filter(e => {
+    if (seen.has(e.word)) return false;
+    seen.add(e.word);
+    return true;
+  });
+};
+
+const matches = (entry: PackWord, { difficulty, categories, kidSafe }: WordFilter): boolean =>
+  (difficulty === 'mixed' || entry.difficulty === difficulty) &&
+  (categories.length === 0 || entry.categories.some(c => categories.includes(c))) &&
+  (!kidSafe || entry.kid_safe === true);
+
+// Built-in words for a filter. A narrow one (say, hard clothing words) may
+// leave too few to play with, so the tier goes first, then the topics;
+// kid-safety is never loosened.
+export const filterWords = (filter: WordFilter, entries: PackWord[] = BUILT_IN_WORDS): PackWord[] => {
+  const attempts: WordFilter[] = [
+    filter,
+    { ...filter, difficulty: 'mixed' },
+    { ...filter, difficulty: 'mixed', categories: [] },
+  ];
+  let pool: PackWord[] = [];
+  for (const attempt of attempts) {
+    pool = uniqueWords(entries.filter(e => matches(e, attempt)));
+    if (pool.length >= MIN_POOL_SIZE) break;
+  }
+  return pool;
+};
+
+// A custom list's plain words as pack entries (no topics or tiers of their own)
+export const listWords = (words: string[], difficulty: Difficulty): PackWord[] =>
+  uniqueWords(words.map(word => ({ word, difficulty, categories: [] })));
+
+// The pool a room draws from for a word of the given tier
+export const roomWordPool = (settings: RoomSettings, difficulty: Difficulty): PackWord[] =>
+  settings.word_pack
+    ? listWords(settings.word_pack.words, difficulty)
+    : filterWords({ difficulty, categories: settings.categories, kidSafe: settings.kid_safe });
+
+// A random entry not in `used`, which it's added to, preferring ones not in
+// `recent`. Once the whole pool has been played, its words are forgotten so
+// they can come round again.
+export const pickWord = (
+  pool: PackWord[],
+  used: Set<string>,
+  recent: ReadonlySet<string> = new Set(),
+  random = Math.random
+): PackWord => {
+  let available = pool.filter(e => !used.has(e.word));
+  if (available.length === 0) {
+    pool.forEach(e => used.delete(e.word));
+    available = pool;
+  }
+  const unseen = available.filter(e => !recent.has(e.word));
+  if (unseen.length > 0) available = unseen;
+  const entry = available[Math.floor(random() * available.length)];
+  used.add(entry.word);
+  return entry;
+};
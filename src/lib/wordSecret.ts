@@ -0,0 +1,31 @@
+import * as Crypto from 'expo-crypto';
+
+/**
+ * Hash-commit for the round's secret word.
+ * Guessers only get a salted hash in round_started; the drawer gets the
+ * plaintext in a message sent to their own inbox channel, and at round end
+ * the host reveals word + salt so every client can check it against the hash.
+ */
+export interface WordSecret {
+  round: number;
+  word: string;
+  salt: string;
+}
+
+export const createWordSecret = (round: number, word: string): WordSecret => ({
+  round,
+  word,
+  salt: Crypto.randomUUID(),
+});
+
+export const hashWordSecret = ({ word, salt }: Pick<WordSecret, 'word' | 'salt'>): Promise<string> =>
+  Crypto.digestStringAsync(
+    Crypto.CryptoDigestAlgorithm.SHA256,
+    `${salt}:${word.toLowerCase().trim()}`
+  );
+
+// True if a revealed word/salt matches the hash given out at round start
+export const verifyWordReveal = async (
+  hash: string,
+  reveal: Pick<WordSecret, 'word' | 'salt'>
+): Promise<boolean> => (await hashWordSecret(reveal)) === hash;
@@ -0,0 +1,124 @@
+import { Difficulty, ThemedWordPack } from '../types/multiplayer';
+import { normalizeGuess } from './guessMatch';
+
+/**
+ * Checks for word lists: repeats, words in more than one tier, stray case
+ * or spacing, and words with nothing to draw. The built-in packs have to
+ * pass (src/lib/__tests__/words.test.ts). Every list is checked again when
+ * the lists are loaded (logged, never thrown); custom lists are tidied when
+ * saved, and saving or importing one shows what was found.
+ */
+
+export type WordProblemKind = 'duplicate' | 'cross_tier' | 'formatting' | 'not_drawable';
+
+export interface WordProblem {
+  kind: WordProblemKind;
+  word: string;
+  detail: string;
+}
+
+// Ideas with no picture to them. Lists made from themes ("brunch: ...,
+// weekend") tend to pick these up.
+export const NOT_DRAWABLE = new Set([
+  'action', 'alteration', 'ancient', 'arrangement', 'depth', 'discussion', 'fresh', 'full',
+  'future', 'gratitude', 'local', 'opinion', 'organic', 'past', 'questions', 'quick', 'quiet',
+  'resolution', 'seconds', 'social', 'special', 'style', 'transition', 'variety', 'weekend',
+]);
+
+const PROBLEM_LABELS: Record<WordProblemKind, string> = {
+  duplicate: 'repeated',
+  cross_tier: 'in more than one tier',
+  formatting: 'case or spacing fixed',
+  not_drawable: 'may be hard to draw',
+};
+
+const tidyWord = (word: string): string => word.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Words that count as the same answer when guessing (spacing, hyphens,
+// accents and plurals aside, see lib/guessMatch.ts) share a key
+const answerKeys = (word: string): string[] => {
+  const key = normalizeGuess(word);
+  return [key, `${key}s`, `${key}es`, key.replace(/e?s$/, ''), key.replace(/s$/, '')];
+};
+
+const findSame = <T>(seen: Map<string, T>, word: string): T | undefined =>
+  answerKeys(word).map(k => seen.get(k)).find(v => v !== undefined);
+
+// Problems with a single entry, wherever it's from
+const checkWord = (word: string): WordProblem[] => {
+  const problems: WordProblem[] = [];
+  if (word !== tidyWord(word)) problems.push({ kind: 'formatting', word, detail: `should be "${tidyWord(word)}"` });
+  if (NOT_DRAWABLE.has(tidyWord(word))) problems.push({ kind: 'not_drawable', word, detail: 'nothing to draw' });
+  return problems;
+};
+
+// A plain list of words, such as a custom pack (blank lines are ignored)
+export const validateWords = (words: string[]): WordProblem[] => {
+  const seen = new Map<string, string>();
+  return words
+    .filter(word => word.trim())
+    .flatMap(word => {
+      const problems = checkWord(word);
+      const same = findSame(seen, word);
+      if (same !== undefined) problems.push({ kind: 'duplicate', word, detail: `same answer as "${same}"` });
+      else seen.set(normalizeGuess(word), word);
+      return problems;
+    });
+};
+
+// A themed pack: each word once, in one tier only
+export const validatePack = (pack: ThemedWordPack): WordProblem[] => {
+  const seen = new Map<string, { word: string; difficulty: Difficulty }>();
+  return pack.words.flatMap(({ word, difficulty }) => {
+    const problems = checkWord(word);
+    const same = findSame(seen, word);
+    if (!same) {
+      seen.set(normalizeGuess(word), { word, difficulty });
+    } else if (same.difficulty === difficulty) {
+      problems.push({ kind: 'duplicate', word, detail: `same answer as "${same.word}" (${difficulty})` });
+    } else {
+      problems.push({ kind: 'cross_tier', word, detail: `${difficulty}, but "${same.word}" is ${same.difficulty}` });
+    }
+    return problems;
+  });
+};
+
+// One line per kind of problem, e.g. "2 repeated: egg, ring"
+export const summarizeProblems = (problems: WordProblem[], maxExamples = 5): string =>
+  (Object.keys(PROBLEM_LABELS) as WordProblemKind[])
+    .map(kind => {
+      const words = [...new Set(problems.filter(p => p.kind === kind).map(p => p.word.trim()))];
+      if (words.length === 0) return null;
+      const examples = words.slice(0, maxExamples).join(', ') + (words.length > maxExamples ? ', ...' : '');
+      return `${words.length} ${PROBLEM_LABELS[kind]}: ${examples}`;
+    })
+    .filter((line): line is string => line !== null)
+    .join('\n');
+
+// One log line per problem, led by the list it was found in
+const describeProblem = (list: string, p: WordProblem): string =>
+  `${list}: "${p.word}" ${p.kind.replace('_', ' ')} (${p.detail})`;
+
+// Built-in packs ship clean: throw with the full list if one doesn't
+export const assertValidPacks = (packs: ThemedWordPack[]) => {
+  const report = packs.flatMap(pack => validatePack(pack).map(p => describeProblem(pack.id, p)));
+  if (report.length > 0) {
+    throw new Error(`Built-in word packs have ${report.length} problem(s):\n${report.join('\n')}`);
+  }
+};
+
+// Problems already logged, so reloading the lists doesn't repeat them
+const reported = new Set<string>();
+
+// Load-time pass over the built-in packs and this device's custom lists.
+// Logs each problem once; a bad list still loads.
+export const reportPackProblems = (builtIn: ThemedWordPack[], custom: { name: string; words: string[] }[]) => {
+  const lines = [
+    ...builtIn.flatMap(pack => validatePack(pack).map(p => describeProblem(pack.id, p))),
+    ...custom.flatMap(pack => validateWords(pack.words).map(p => describeProblem(`"${pack.name}"`, p))),
+  ].filter(line => !reported.has(line));
+  if (lines.length === 0) return;
+
+  lines.forEach(line => reported.add(line));
+  console.warn(`Word lists have ${lines.length} problem(s):\n${lines.join('\n')}`);
+};
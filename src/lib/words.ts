@@ -1,248 +1,348 @@
+import { Difficulty, PackWord, ThemedWordPack, WordCategory } from '../types/multiplayer';
+
 /**
- * Pictionary-style word lists: drawable only. No repeats in same room/session.
+ * The built-in word pack. Pictionary-style: drawable only, every word tagged
+ * with a difficulty and one or more categories so rooms can play a theme.
  * Easy = simple objects/animals/actions. Medium = concrete. Hard = longer but drawable.
+ * Picking (filters, no repeats) lives in lib/wordPicker.ts.
  */
 
-export const WORDS = {
-  easy: [
-    'cat', 'dog', 'sun', 'moon', 'star', 'fish', 'bird', 'ball', 'house', 'tree',
-    'car', 'hat', 'book', 'cup', 'bed', 'apple', 'banana', 'flower', 'heart',
-    'smile', 'rain', 'snow', 'fire', 'key', 'door', 'hand', 'foot', 'eye', 'nose',
-    'run', 'jump', 'sit', 'sleep', 'eat', 'drink', 'swim', 'fly', 'walk', 'dance',
-    'boat', 'bus', 'bike', 'cake', 'pizza', 'ice', 'wind', 'cloud', 'bee', 'bug',
-    'frog', 'bear', 'lion', 'duck', 'pig', 'cow', 'horse', 'mouse', 'rabbit', 'bat',
-    'pen', 'box', 'bag', 'bell', 'ring', 'lamp', 'fork', 'spoon', 'chair', 'table',
-    'red', 'blue', 'green', 'yellow', 'wave', 'mountain', 'egg', 'leaf', 'stick',
-    'ant', 'owl', 'fox', 'deer', 'wolf', 'seal', 'whale', 'shark', 'snake', 'turtle',
-    'bee', 'spider', 'crab', 'clam', 'cloud', 'rainbow',
-    'bread', 'milk', 'egg', 'cheese', 'rice', 'corn', 'grape', 'melon', 'peach',
-    'pear', 'cherry', 'strawberry', 'orange', 'lemon', 'lime', 'carrot', 'potato',
-    'tomato', 'onion', 'pepper', 'salad', 'soup', 'tea', 'coffee', 'juice', 'water',
-    'king', 'queen', 'baby', 'angel', 'clown', 'robot', 'alien', 'monster', 'ghost',
-    'bone', 'skull', 'crown', 'ring', 'gem', 'coin', 'flag', 'map', 'globe', 'anchor',
-    'sword', 'shield', 'arrow', 'bow', 'castle', 'tower', 'bridge', 'fence', 'gate',
-    'road', 'path', 'hill', 'river', 'lake', 'pond', 'ocean', 'island', 'cave',
-    'tent', 'roof', 'window', 'stairs', 'ladder', 'hammer', 'nail', 'saw', 'rope',
-    'brush', 'paint', 'pencil', 'paper', 'scissors', 'glue', 'tape', 'pin', 'needle',
-    'thread', 'button', 'zipper', 'belt', 'shoe', 'sock', 'glove', 'scarf', 'umbrella',
-    'watch', 'clock', 'phone', 'radio', 'camera', 'light', 'candle', 'mirror',
-    'soap', 'towel', 'comb', 'toothbrush', 'pillow', 'blanket', 'broom', 'mop',
-    'vase', 'bottle', 'jar', 'can', 'bucket', 'basket', 'net', 'hook', 'worm',
-    'nest', 'feather', 'wing', 'tail', 'horn', 'hoof', 'paw', 'claw', 'beak',
-    'trunk', 'tusk', 'fin', 'scale', 'shell', 'fur', 'stripes', 'spots',
-    'kick', 'throw', 'catch', 'push', 'pull', 'climb', 'slide', 'roll', 'spin',
-    'read', 'write', 'draw', 'sing', 'drum', 'whistle', 'blow', 'point', 'wave',
-    'open', 'close', 'lock', 'knock', 'ring', 'wipe', 'sweep', 'stir',
-    'pour', 'mix', 'cut', 'peel', 'slice', 'spread', 'fold', 'wrap', 'tie',
-    'smell', 'taste', 'hear', 'see', 'touch', 'think', 'dream', 'wake', 'yawn',
-    'sneeze', 'cough', 'laugh', 'cry', 'shout', 'whisper', 'hug', 'kiss', 'wave',
-    'stomp', 'march', 'tiptoe', 'squat', 'bend', 'stretch', 'twist', 'shake',
-    'camp', 'hike', 'fish', 'hunt', 'garden', 'cook', 'bake', 'grill', 'picnic',
-    'party', 'birthday', 'present', 'balloon', 'confetti', 'cake', 'candle', 'wish',
-    'snowman', 'snowball', 'sled', 'skate', 'ski', 'surf', 'dive', 'float', 'sail',
-    'paddle', 'row', 'climb', 'zip', 'slide', 'swing', 'bounce', 'hop', 'skip',
-  ],
-  medium: [
-    'elephant', 'giraffe', 'penguin', 'dolphin', 'butterfly', 'kangaroo', 'octopus',
-    'umbrella', 'guitar', 'camera', 'bicycle', 'airplane', 'rocket', 'balloon',
-    'birthday', 'castle', 'beach', 'mountain', 'campfire', 'telescope', 'treasure',
-    'hamburger', 'sandwich', 'popcorn', 'watermelon', 'pineapple', 'coconut',
-    'dancing', 'swimming', 'cooking', 'painting', 'fishing', 'camping', 'skating',
-    'robot', 'pirate', 'crown', 'crystal', 'dragon', 'unicorn', 'mermaid', 'wizard',
-    'rainbow', 'volcano', 'waterfall', 'lighthouse', 'windmill', 'tent', 'bridge',
-    'snowman', 'scarecrow', 'skeleton', 'ghost', 'pumpkin', 'present', 'candle',
-    'glasses', 'watch', 'backpack', 'kite', 'yo-yo', 'drum', 'violin', 'microphone',
-    'surfing', 'skiing', 'soccer', 'basketball', 'bowling', 'frisbee', 'rollerblade',
-    'peacock', 'flamingo', 'parrot', 'eagle', 'hawk', 'owl', 'pelican', 'stork',
-    'swan', 'goose', 'turkey', 'chicken', 'rooster', 'pigeon', 'crow', 'sparrow',
-    'crocodile', 'alligator', 'lizard', 'iguana', 'chameleon', 'gecko', 'salamander',
-    'jellyfish', 'seahorse', 'starfish', 'octopus', 'squid', 'lobster', 'shrimp',
-    'caterpillar', 'ladybug', 'dragonfly', 'firefly', 'grasshopper', 'cricket',
-    'mosquito', 'beetle', 'snail', 'worm', 'ant', 'spider', 'scorpion', 'centipede',
-    'tractor', 'helicopter', 'submarine', 'sailboat', 'canoe', 'kayak', 'surfboard',
-    'skateboard', 'scooter', 'roller skates', 'sled', 'snowboard', 'skis', 'poles',
-    'telescope', 'binoculars', 'compass', 'flashlight', 'lantern', 'magnifying glass',
-    'backpack', 'suitcase', 'purse', 'wallet', 'keychain', 'lunchbox', 'thermos',
-    'toothbrush', 'soap', 'shampoo', 'towel', 'sponge', 'mirror', 'hairbrush',
-    'necklace', 'bracelet', 'earrings', 'ring', 'tiara', 'crown', 'mask', 'wig',
-    'apron', 'oven mitt', 'pot', 'pan', 'spatula', 'ladle', 'colander', 'blender',
-    'toaster', 'microwave', 'refrigerator', 'sink', 'faucet', 'dish', 'glass',
-    'napkin', 'placemat', 'tablecloth', 'chopsticks', 'teapot', 'mug', 'pitcher',
-    'hammock', 'swing set', 'sandbox', 'slide', 'seesaw', 'merry-go-round',
-    'fountain', 'statue', 'bench', 'gazebo', 'fence', 'gate', 'mailbox', 'lawn',
-    'garden', 'flower bed', 'vegetable', 'watering can', 'wheelbarrow', 'rake',
-    'shovel', 'hoe', 'seeds', 'sprout', 'vine', 'bush', 'hedge', 'tree stump',
-    'camping', 'bonfire', 'marshmallow', 'sleeping bag', 'campfire', 'flashlight',
-    'fishing rod', 'bait', 'tackle box', 'life jacket', 'oar', 'anchor', 'buoy',
-    'lifeguard', 'sunscreen', 'beach ball', 'sand castle', 'seashell', 'coral',
-    'surfboard', 'wetsuit', 'snorkel', 'flippers', 'diving board', 'pool',
-    'basketball hoop', 'tennis racket', 'golf club', 'baseball bat', 'helmet',
-    'trophy', 'medal', 'podium', 'finish line', 'stopwatch', 'whistle', 'conductor',
-    'microphone', 'speaker', 'stage', 'curtain', 'spotlight', 'costume', 'mask',
-    'puppet', 'marionette', 'juggling', 'acrobat', 'magician', 'clown', 'mime',
-    'artist', 'easel', 'palette', 'paintbrush', 'canvas', 'clay', 'sculpture',
-    'mosaic', 'collage', 'sketch', 'portrait', 'landscape', 'still life',
-    'superhero', 'cape', 'mask', 'shield', 'sword', 'wand', 'spell', 'cauldron',
-    'treasure chest', 'gold coins', 'gem', 'crown', 'throne', 'dungeon', 'tower',
-    'drawbridge', 'moat', 'knight', 'armor', 'helmet', 'horse', 'jousting',
-    'spaceship', 'astronaut', 'planet', 'alien', 'robot', 'laser', 'satellite',
-    'moon landing', 'rocket launch', 'constellation', 'comet', 'meteor', 'orbit',
-    'hospital', 'stethoscope', 'bandage', 'syringe', 'pill', 'thermometer',
-    'ambulance', 'wheelchair', 'crutches', 'cast', 'x-ray', 'doctor', 'nurse',
-    'school', 'blackboard', 'desk', 'backpack', 'pencil case', 'ruler', 'eraser',
-    'notebook', 'textbook', 'locker', 'recess', 'playground', 'cafeteria',
-    'library', 'bookshelf', 'ladder', 'card catalog', 'reading', 'bookmark',
-    'office', 'computer', 'keyboard', 'mouse', 'desk lamp', 'stapler', 'folder',
-    'briefcase', 'name tag', 'coffee cup', 'plant', 'calendar', 'whiteboard',
-    'bakery', 'donut', 'croissant', 'bagel', 'muffin', 'cookie', 'cupcake',
-    'ice cream', 'cone', 'sundae', 'popsicle', 'smoothie', 'milkshake',
-    'restaurant', 'menu', 'waiter', 'chef', 'kitchen', 'stove', 'grill',
-    'grocery', 'shopping cart', 'checkout', 'cash register', 'shopping bag',
-    'zoo', 'cage', 'safari', 'elephant', 'zebra', 'monkey', 'gorilla', 'lion',
-    'aquarium', 'tank', 'coral', 'bubble', 'diver', 'fish food', 'net',
-    'museum', 'painting', 'statue', 'exhibit', 'tour', 'guide', 'gift shop',
-    'circus', 'tent', 'acrobat', 'trapeze', 'tightrope', 'lion tamer', 'ringmaster',
-    'carnival', 'ferris wheel', 'carousel', 'bumper cars', 'cotton candy', 'funnel cake',
-    'birthday party', 'pinata', 'balloons', 'streamers', 'party hat', 'noisemaker',
-    'wedding', 'cake', 'bouquet', 'ring', 'veil', 'gown', 'tuxedo', 'altar',
-    'halloween', 'costume', 'trick or treat', 'candy', 'jack-o-lantern', 'witch',
-    'christmas', 'tree', 'ornament', 'lights', 'stocking', 'santa', 'reindeer',
-    'snowflake', 'snowball', 'igloo', 'snow fort', 'snow angel', 'frost',
-    'spring', 'bloom', 'butterfly', 'bee', 'nest', 'tulip', 'daffodil', 'cherry blossom',
-    'summer', 'sun', 'beach', 'sunscreen', 'lemonade', 'ice cream', 'pool',
-    'fall', 'leaves', 'harvest', 'pumpkin', 'apple', 'corn', 'scarecrow',
-    'weather', 'rain', 'snow', 'wind', 'storm', 'lightning', 'thunder', 'rainbow',
-  ],
-  hard: [
-    'birthday cake', 'roller coaster', 'hot air balloon', 'snowboarding', 'scuba diving',
-    'rock concert', 'supermarket', 'traffic light', 'washing machine', 'toothbrush',
-    'camping trip', 'treasure hunt', 'sand castle', 'snowball fight', 'water park',
-    'movie theater', 'amusement park', 'sleeping bag', 'flying kite', 'building blocks',
-    'pizza delivery', 'ice cream truck', 'fireworks', 'double decker bus',
-    'skateboard', 'trampoline', 'merry-go-round', 'ferris wheel', 'lemonade stand',
-    'picnic basket', 'fishing rod', 'baseball bat', 'barbecue', 'garden hose',
-    'snow angel', 'smoothie', 'pancakes', 'breakfast', 'lunch box',
-    'teddy bear', 'puzzle', 'snowflake', 'sunflower', 'cactus', 'palm tree',
-    'ladybug', 'caterpillar', 'jellyfish', 'seahorse', 'starfish',
-    'flashlight', 'binoculars', 'compass', 'campfire', 'marshmallow', 'kayak', 'parachute',
-    'sleeping bag', 'tent', 'camping', 'hiking', 'fishing', 'kayak',
-    'road trip', 'map reading', 'camping stove', 'first aid kit', 'headlamp',
-    'sandwich', 'fruit salad', 'trail mix', 'energy bar', 'water bottle',
-    'mountain climbing', 'rock climbing', 'zip line', 'rope bridge', 'cave exploring',
-    'underwater', 'snorkeling', 'scuba tank', 'coral reef', 'shipwreck',
-    'snow fort', 'snowball', 'sledding', 'ice skating', 'hockey', 'curling',
-    'ski lift', 'snow plow', 'snow shovel', 'snow blower', 'fireplace',
-    'roasting marshmallows', 'telling stories', 'singing songs', 'playing guitar',
-    'building a fort', 'pillow fight', 'board game', 'card game', 'puzzle',
-    'science experiment', 'volcano', 'tornado', 'solar system', 'microscope',
-    'telescope', 'constellation', 'shooting star', 'eclipse', 'aurora',
-    'rainbow', 'double rainbow', 'clouds', 'storm cloud', 'lightning bolt',
-    'thunder', 'rain', 'drizzle', 'hail', 'sleet', 'blizzard', 'fog',
-    'water cycle', 'evaporation', 'condensation', 'precipitation',
-    'garden', 'vegetable garden', 'flower garden', 'greenhouse', 'compost',
-    'watering plants', 'pruning', 'harvesting', 'canning', 'pickling',
-    'baking cookies', 'making pizza', 'stir fry', 'soup', 'salad', 'smoothie',
-    'birthday party', 'blowing candles', 'opening presents', 'pinata',
-    'wedding', 'bride', 'groom', 'bouquet', 'first dance', 'cake cutting',
-    'graduation', 'cap', 'gown', 'diploma', 'throw cap', 'celebration',
-    'halloween', 'trick or treat', 'costume', 'candy', 'jack o lantern',
-    'thanksgiving', 'turkey', 'feast', 'family', 'gratitude', 'harvest',
-    'christmas', 'decorating tree', 'wrapping presents', 'caroling',
-    'new year', 'countdown', 'fireworks', 'champagne', 'resolution',
-    'easter', 'egg hunt', 'basket', 'bunny', 'chocolate', 'spring',
-    'valentine', 'heart', 'cupid', 'chocolate', 'rose', 'love letter',
-    'super bowl', 'football', 'tailgate', 'commercial', 'halftime',
-    'olympics', 'gold medal', 'podium', 'torch', 'opening ceremony',
-    'marathon', 'running', 'finish line', 'medal', 'water station',
-    'triathlon', 'swimming', 'cycling', 'running', 'transition',
-    'gymnastics', 'balance beam', 'vault', 'floor routine', 'rings',
-    'figure skating', 'ice rink', 'spin', 'jump', 'pair skating',
-    'snowboarding', 'halfpipe', 'slope', 'powder', 'trick',
-    'surfing', 'wave', 'board', 'wetsuit', 'barrel', 'pipeline',
-    'skateboarding', 'ramp', 'ollie', 'kickflip', 'grind',
-    'rock concert', 'stage', 'crowd', 'guitar solo', 'encore',
-    'orchestra', 'conductor', 'violin', 'cello', 'piano', 'drum',
-    'ballet', 'tutu', 'pointe', 'pirouette', 'plie', 'leap',
-    'broadway', 'musical', 'curtain call', 'standing ovation',
-    'art museum', 'painting', 'sculpture', 'gallery', 'frame',
-    'street art', 'graffiti', 'mural', 'spray paint', 'stencil',
-    'pottery', 'clay', 'wheel', 'kiln', 'glaze', 'vase',
-    'photography', 'camera', 'lens', 'tripod', 'flash', 'portrait',
-    'film set', 'director', 'actor', 'camera', 'lights', 'action',
-    'magic show', 'rabbit', 'hat', 'cards', 'disappear', 'saw',
-    'circus', 'trapeze', 'tightrope', 'juggling', 'clown', 'lion',
-    'zoo', 'safari', 'aquarium', 'petting zoo', 'feeding', 'tour',
-    'farm', 'tractor', 'barn', 'hay', 'chicken', 'cow', 'pig',
-    'ranch', 'horse', 'rodeo', 'lasso', 'cowboy', 'cowgirl',
-    'space station', 'astronaut', 'zero gravity', 'spacewalk', 'earth',
-    'mars', 'rover', 'rocket', 'launch', 'orbit', 'moon',
-    'submarine', 'periscope', 'torpedo', 'sonar', 'depth',
-    'pirate ship', 'treasure map', 'parrot', 'anchor', 'sail',
-    'castle', 'drawbridge', 'moat', 'dungeon', 'throne', 'knight',
-    'fairy tale', 'princess', 'dragon', 'knight', 'castle', 'magic',
-    'superhero', 'cape', 'mask', 'villain', 'rescue', 'powers',
-    'detective', 'magnifying glass', 'clue', 'mystery', 'suspect',
-    'time machine', 'past', 'future', 'clock', 'invention',
-    'invention', 'light bulb', 'idea', 'blueprint', 'experiment',
-    'laboratory', 'beaker', 'formula', 'discovery', 'scientist',
-    'library', 'ancient', 'scroll', 'book', 'ladder', 'quiet',
-    'treehouse', 'ladder', 'rope', 'hideout', 'secret', 'club',
-    'lemonade stand', 'pitcher', 'cup', 'sign', 'money', 'customer',
-    'garage sale', 'table', 'price tag', 'bargain', 'shopping',
-    'moving', 'boxes', 'truck', 'furniture', 'unpacking',
-    'house cleaning', 'vacuum', 'mop', 'dust', 'organize',
-    'cooking show', 'chef', 'ingredients', 'recipe', 'tasting',
-    'game show', 'buzzer', 'prize', 'contestant', 'host',
-    'talk show', 'sofa', 'interview', 'audience', 'applause',
-    'news anchor', 'desk', 'camera', 'teleprompter', 'breaking news',
-    'weather report', 'map', 'forecast', 'temperature', 'radar',
-    'sports game', 'stadium', 'crowd', 'scoreboard', 'referee',
-    'concert', 'band', 'stage', 'lights', 'crowd', 'encore',
-    'wedding', 'ceremony', 'reception', 'dance', 'cake',
-    'baby shower', 'gifts', 'games', 'cake', 'decorations',
-    'retirement party', 'speech', 'cake', 'gifts', 'celebration',
-    'family reunion', 'picnic', 'photos', 'stories', 'hugs',
-    'slumber party', 'pillow fight', 'movies', 'popcorn', 'gossip',
-    'pool party', 'swimming', 'float', 'grill', 'music',
-    'backyard', 'grill', 'lawn', 'garden', 'patio', 'fence',
-    'road trip', 'car', 'map', 'snacks', 'music', 'highway',
-    'camping', 'tent', 'fire', 'stars', 'marshmallows', 'stories',
-    'beach day', 'umbrella', 'sunscreen', 'towels', 'volleyball',
-    'hiking trail', 'boots', 'backpack', 'water', 'trail', 'view',
-    'fishing trip', 'boat', 'rod', 'bait', 'cooler', 'catch',
-    'ski trip', 'lodge', 'slopes', 'hot chocolate', 'fireplace',
-    'cruise ship', 'deck', 'pool', 'buffet', 'island', 'excursion',
-    'safari', 'jeep', 'binoculars', 'animals', 'sunset', 'wildlife',
-    'museum', 'exhibit', 'tour', 'painting', 'sculpture', 'gift shop',
-    'amusement park', 'rides', 'cotton candy', 'roller coaster', 'ferris wheel',
-    'water park', 'slide', 'wave pool', 'lazy river', 'splash',
-    'bowling', 'lane', 'ball', 'pins', 'shoes', 'strike',
-    'mini golf', 'putter', 'windmill', 'obstacle', 'hole',
-    'arcade', 'games', 'tokens', 'prizes', 'joystick', 'screen',
-    'escape room', 'puzzle', 'clue', 'lock', 'timer', 'mystery',
-    'karaoke', 'microphone', 'screen', 'song', 'stage', 'crowd',
-    'trivia night', 'team', 'questions', 'score', 'prize',
-    'potluck', 'dish', 'table', 'variety', 'sharing', 'recipe',
-    'brunch', 'mimosa', 'eggs', 'pancakes', 'buffet', 'weekend',
-    'happy hour', 'drinks', 'appetizers', 'special', 'social',
-    'book club', 'discussion', 'wine', 'snacks', 'opinion',
-    'yoga class', 'mat', 'stretch', 'breathe', 'pose', 'relax',
-    'gym', 'weights', 'treadmill', 'workout', 'sweat', 'muscle',
-    'spa day', 'massage', 'facial', 'manicure', 'pedicure', 'relax',
-    'hair salon', 'cut', 'color', 'style', 'mirror', 'chair',
-    'tailor', 'measure', 'sew', 'fit', 'fabric', 'alteration',
-    'flower shop', 'bouquet', 'vase', 'arrangement', 'delivery',
-    'bakery', 'bread', 'pastry', 'cake', 'smell', 'fresh',
-    'butcher', 'meat', 'cut', 'scale', 'wrap', 'counter',
-    'fish market', 'seafood', 'ice', 'scale', 'fresh', 'catch',
-    'farmers market', 'produce', 'stand', 'organic', 'local', 'fresh',
-    'food truck', 'window', 'order', 'street', 'variety', 'quick',
-    'coffee shop', 'latte', 'espresso', 'pastry', 'wifi', 'cozy',
-    'ice cream shop', 'cone', 'scoop', 'topping', 'sundae', 'sweet',
-    'pizza place', 'slice', 'oven', 'topping', 'cheese', 'crust',
-    'sushi restaurant', 'roll', 'sashimi', 'chopsticks', 'soy sauce',
-    'taco stand', 'tortilla', 'salsa', 'guacamole', 'lime', 'spicy',
-    'buffet', 'plate', 'variety', 'seconds', 'dessert', 'full',
-    'brunch', 'eggs benedict', 'mimosa', 'avocado', 'toast', 'weekend',
-  ],
+export const CATEGORIES: { id: WordCategory; label: string; emoji: string }[] = [
+  { id: 'animals', label: 'Animals', emoji: '🐾' },
+  { id: 'food', label: 'Food & Drink', emoji: '🍕' },
+  { id: 'objects', label: 'Things', emoji: '🧸' },
+  { id: 'nature', label: 'Nature & Weather', emoji: '🌳' },
+  { id: 'people', label: 'People & Body', emoji: '🧑' },
+  { id: 'places', label: 'Places', emoji: '🏰' },
+  { id: 'actions', label: 'Actions', emoji: '🏃' },
+  { id: 'vehicles', label: 'Vehicles & Travel', emoji: '🚗' },
+  { id: 'sports', label: 'Sports', emoji: '⚽' },
+  { id: 'clothing', label: 'Clothing', emoji: '👕' },
+  { id: 'holidays', label: 'Holidays & Parties', emoji: '🎉' },
+  { id: 'arts', label: 'Arts & Shows', emoji: '🎭' },
+  { id: 'fantasy', label: 'Fantasy', emoji: '🧙' },
+  { id: 'science', label: 'Space & Science', emoji: '🚀' },
+  { id: 'misc', label: 'Odds & Ends', emoji: '✨' },
+];
+
+export const CATEGORY_IDS: WordCategory[] = CATEGORIES.map(c => c.id);
+
+// Tier → category → words. Each word once, in one tier (lib/wordValidation.ts)
+const CLASSIC_WORDS: Record<Difficulty, Partial<Record<WordCategory, string[]>>> = {
+  easy: {
+    animals: [
+      'cat', 'dog', 'fish', 'bird', 'bee', 'bug', 'frog', 'bear', 'lion', 'duck', 'pig',
+      'cow', 'horse', 'mouse', 'rabbit', 'bat', 'ant', 'owl', 'fox', 'deer', 'wolf', 'seal',
+      'whale', 'shark', 'snake', 'turtle', 'spider', 'crab', 'clam', 'worm', 'nest',
+      'feather', 'wing', 'tail', 'hoof', 'paw', 'claw', 'beak', 'tusk', 'fin', 'fur',
+    ],
+    food: [
+      'apple', 'banana', 'drink', 'cake', 'pizza', 'egg', 'bread', 'milk', 'cheese', 'rice',
+      'corn', 'grape', 'melon', 'peach', 'pear', 'cherry', 'strawberry', 'orange', 'lemon',
+      'lime', 'carrot', 'potato', 'tomato', 'onion', 'pepper', 'salad', 'soup', 'tea',
+      'coffee', 'juice', 'water', 'roll', 'slice', 'taste', 'bake',
+    ],
+    objects: [
+      'cup', 'bed', 'key', 'pen', 'box', 'bag', 'bell', 'lamp', 'fork', 'spoon', 'chair',
+      'table', 'stick', 'coin', 'flag', 'map', 'anchor', 'arrow', 'bow', 'ladder', 'hammer',
+      'nail', 'saw', 'rope', 'brush', 'pencil', 'paper', 'scissors', 'glue', 'tape', 'pin',
+      'needle', 'thread', 'umbrella', 'watch', 'clock', 'phone', 'light', 'mirror', 'soap',
+      'towel', 'comb', 'toothbrush', 'pillow', 'blanket', 'broom', 'mop', 'vase', 'bottle',
+      'jar', 'can', 'bucket', 'basket', 'net', 'hook', 'horn', 'trunk', 'scale', 'lock',
+      'grill', 'zip',
+    ],
+    nature: [
+      'sun', 'tree', 'flower', 'rain', 'snow', 'fire', 'ice', 'wind', 'cloud', 'wave',
+      'mountain', 'leaf', 'rainbow', 'hill', 'river', 'lake', 'pond', 'ocean', 'island',
+      'cave', 'shell', 'garden', 'float',
+    ],
+    people: [
+      'heart', 'hand', 'foot', 'eye', 'nose', 'baby',
+    ],
+    places: [
+      'house', 'door', 'tower', 'bridge', 'fence', 'gate', 'road', 'path', 'tent', 'roof',
+      'window', 'stairs', 'slide', 'camp', 'picnic', 'swing',
+    ],
+    actions: [
+      'smile', 'run', 'jump', 'sit', 'sleep', 'eat', 'swim', 'fly', 'walk', 'push', 'pull',
+      'climb', 'spin', 'write', 'blow', 'point', 'open', 'close', 'knock', 'wipe', 'sweep',
+      'stir', 'pour', 'mix', 'cut', 'peel', 'spread', 'fold', 'wrap', 'smell', 'hear', 'see',
+      'touch', 'think', 'wake', 'yawn', 'sneeze', 'cough', 'laugh', 'cry', 'shout', 'whisper',
+      'hug', 'kiss', 'stomp', 'march', 'tiptoe', 'bend', 'twist', 'shake', 'hunt', 'cook',
+      'hop', 'skip',
+    ],
+    vehicles: [
+      'car', 'boat', 'bus', 'bike', 'sled', 'sail', 'paddle', 'row',
+    ],
+    sports: [
+      'ball', 'kick', 'throw', 'catch', 'whistle', 'squat', 'stretch', 'hike', 'skate', 'ski',
+      'surf', 'dive', 'bounce',
+    ],
+    clothing: [
+      'hat', 'ring', 'crown', 'button', 'zipper', 'belt', 'shoe', 'sock', 'glove', 'scarf',
+      'tie',
+    ],
+    holidays: [
+      'candle', 'party', 'birthday', 'present', 'balloon', 'confetti', 'wish', 'snowman',
+      'snowball',
+    ],
+    arts: [
+      'book', 'dance', 'clown', 'paint', 'radio', 'camera', 'read', 'draw', 'sing', 'drum',
+    ],
+    fantasy: [
+      'king', 'queen', 'angel', 'robot', 'alien', 'monster', 'ghost', 'bone', 'skull', 'gem',
+      'sword', 'shield', 'castle', 'dream',
+    ],
+    science: [
+      'moon', 'star', 'globe',
+    ],
+    misc: [
+      'red', 'blue', 'green', 'yellow', 'stripes', 'spots',
+    ],
+  },
+  medium: {
+    animals: [
+      'elephant', 'giraffe', 'penguin', 'dolphin', 'butterfly', 'kangaroo', 'octopus',
+      'peacock', 'flamingo', 'parrot', 'eagle', 'hawk', 'pelican', 'stork', 'swan', 'goose',
+      'chicken', 'rooster', 'pigeon', 'crow', 'sparrow', 'crocodile', 'alligator', 'lizard',
+      'iguana', 'chameleon', 'gecko', 'salamander', 'jellyfish', 'seahorse', 'starfish',
+      'squid', 'lobster', 'shrimp', 'caterpillar', 'ladybug', 'dragonfly', 'firefly',
+      'grasshopper', 'cricket', 'mosquito', 'beetle', 'snail', 'scorpion', 'centipede',
+      'coral', 'zoo', 'cage', 'zebra', 'monkey', 'gorilla', 'aquarium', 'fish food',
+      'reindeer',
+    ],
+    food: [
+      'hamburger', 'sandwich', 'popcorn', 'watermelon', 'pineapple', 'coconut', 'cooking',
+      'turkey', 'lunchbox', 'dish', 'vegetable', 'marshmallow', 'donut', 'croissant', 'bagel',
+      'muffin', 'cookie', 'cupcake', 'ice cream', 'cone', 'sundae', 'popsicle', 'smoothie',
+      'milkshake', 'menu', 'grocery', 'cotton candy', 'funnel cake', 'candy', 'lemonade',
+      'harvest',
+    ],
+    objects: [
+      'fishing', 'kite', 'yo-yo', 'binoculars', 'flashlight', 'lantern', 'keychain',
+      'thermos', 'shampoo', 'sponge', 'hairbrush', 'oven mitt', 'pot', 'pan', 'spatula',
+      'ladle', 'colander', 'blender', 'toaster', 'microwave', 'refrigerator', 'sink',
+      'faucet', 'glass', 'napkin', 'placemat', 'tablecloth', 'chopsticks', 'teapot', 'mug',
+      'pitcher', 'hammock', 'watering can', 'wheelbarrow', 'rake', 'shovel', 'hoe',
+      'sleeping bag', 'fishing rod', 'bait', 'tackle box', 'life jacket', 'sunscreen',
+      'stopwatch', 'blackboard', 'desk', 'pencil case', 'ruler', 'eraser', 'notebook',
+      'textbook', 'locker', 'keyboard', 'desk lamp', 'stapler', 'folder', 'coffee cup',
+      'calendar', 'whiteboard', 'stove', 'tank', 'bubble',
+    ],
+    nature: [
+      'beach', 'campfire', 'volcano', 'waterfall', 'scarecrow', 'pumpkin', 'lawn',
+      'flower bed', 'seeds', 'sprout', 'vine', 'bush', 'hedge', 'tree stump', 'bonfire',
+      'buoy', 'sand castle', 'seashell', 'plant', 'snowflake', 'frost', 'spring', 'bloom',
+      'tulip', 'daffodil', 'cherry blossom', 'summer', 'fall', 'leaves', 'weather', 'storm',
+      'lightning', 'thunder',
+    ],
+    people: [
+      'lifeguard', 'chef', 'guide',
+    ],
+    places: [
+      'camping', 'lighthouse', 'windmill', 'swing set', 'sandbox', 'seesaw', 'merry-go-round',
+      'fountain', 'bench', 'gazebo', 'mailbox', 'pool', 'school', 'recess', 'playground',
+      'cafeteria', 'office', 'bakery', 'restaurant', 'waiter', 'kitchen', 'shopping cart',
+      'checkout', 'cash register', 'shopping bag', 'safari', 'tour', 'gift shop',
+      'ferris wheel', 'carousel', 'bumper cars', 'igloo',
+    ],
+    actions: [
+      'spell',
+    ],
+    vehicles: [
+      'bicycle', 'airplane', 'rocket', 'tractor', 'helicopter', 'submarine', 'sailboat',
+      'canoe', 'kayak', 'skateboard', 'scooter', 'oar', 'spaceship', 'ambulance',
+      'wheelchair',
+    ],
+    sports: [
+      'swimming', 'skating', 'surfing', 'skiing', 'soccer', 'basketball', 'bowling',
+      'frisbee', 'rollerblade', 'surfboard', 'roller skates', 'snowboard', 'poles',
+      'beach ball', 'wetsuit', 'snorkel', 'flippers', 'diving board', 'basketball hoop',
+      'tennis racket', 'golf club', 'baseball bat', 'helmet', 'trophy', 'medal', 'podium',
+      'finish line', 'jousting', 'diver',
+    ],
+    clothing: [
+      'backpack', 'suitcase', 'purse', 'wallet', 'necklace', 'bracelet', 'earrings', 'tiara',
+      'mask', 'wig', 'apron', 'costume', 'cape', 'briefcase', 'name tag', 'party hat', 'veil',
+      'gown', 'tuxedo',
+    ],
+    holidays: [
+      'birthday party', 'pinata', 'streamers', 'noisemaker', 'wedding', 'bouquet', 'altar',
+      'halloween', 'trick or treat', 'jack-o-lantern', 'christmas', 'ornament', 'stocking',
+      'santa', 'snow fort', 'snow angel',
+    ],
+    arts: [
+      'guitar', 'dancing', 'painting', 'violin', 'microphone', 'statue', 'conductor',
+      'speaker', 'stage', 'curtain', 'spotlight', 'puppet', 'marionette', 'juggling',
+      'acrobat', 'magician', 'mime', 'artist', 'easel', 'palette', 'paintbrush', 'canvas',
+      'clay', 'sculpture', 'mosaic', 'collage', 'sketch', 'portrait', 'landscape',
+      'still life', 'cast', 'library', 'bookshelf', 'card catalog', 'reading', 'bookmark',
+      'museum', 'exhibit', 'circus', 'trapeze', 'tightrope', 'lion tamer', 'ringmaster',
+      'carnival',
+    ],
+    fantasy: [
+      'treasure', 'pirate', 'crystal', 'dragon', 'unicorn', 'mermaid', 'wizard', 'skeleton',
+      'superhero', 'wand', 'cauldron', 'treasure chest', 'gold coins', 'throne', 'dungeon',
+      'drawbridge', 'moat', 'knight', 'armor', 'witch',
+    ],
+    science: [
+      'telescope', 'compass', 'magnifying glass', 'astronaut', 'planet', 'laser', 'satellite',
+      'moon landing', 'rocket launch', 'constellation', 'comet', 'meteor', 'orbit',
+      'hospital', 'stethoscope', 'bandage', 'syringe', 'pill', 'thermometer', 'crutches',
+      'x-ray', 'doctor', 'nurse', 'computer',
+    ],
+  },
+  hard: {
+    animals: [
+      'coral reef', 'bunny', 'petting zoo', 'feeding', 'animals', 'wildlife',
+    ],
+    food: [
+      'birthday cake', 'barbecue', 'pancakes', 'breakfast', 'fruit salad', 'trail mix',
+      'energy bar', 'canning', 'pickling', 'baking cookies', 'making pizza', 'stir fry',
+      'cake cutting', 'feast', 'champagne', 'chocolate', 'glaze', 'ingredients', 'recipe',
+      'tasting', 'snacks', 'hot chocolate', 'buffet', 'potluck', 'brunch', 'mimosa',
+      'happy hour', 'appetizers', 'wine', 'pastry', 'meat', 'seafood', 'produce', 'order',
+      'latte', 'espresso', 'scoop', 'topping', 'sweet', 'crust', 'sashimi', 'soy sauce',
+      'tortilla', 'salsa', 'guacamole', 'spicy', 'dessert', 'eggs benedict', 'avocado',
+      'toast',
+    ],
+    objects: [
+      'washing machine', 'building blocks', 'garden hose', 'teddy bear', 'puzzle',
+      'camping stove', 'headlamp', 'water bottle', 'rope bridge', 'snow shovel', 'fireplace',
+      'board game', 'card game', 'powder', 'board', 'barrel', 'cards', 'sign', 'money',
+      'furniture', 'vacuum', 'buzzer', 'prize', 'sofa', 'games', 'rod', 'cooler', 'tokens',
+      'joystick', 'timer', 'oven', 'plate',
+    ],
+    nature: [
+      'sunflower', 'cactus', 'palm tree', 'underwater', 'tornado', 'double rainbow',
+      'storm cloud', 'lightning bolt', 'drizzle', 'hail', 'sleet', 'blizzard', 'fog',
+      'vegetable garden', 'flower garden', 'greenhouse', 'compost', 'watering plants',
+      'pruning', 'harvesting', 'rose', 'hay', 'dust', 'hiking trail', 'trail', 'view',
+      'sunset', 'wave pool', 'splash',
+    ],
+    people: [
+      'family', 'detective', 'suspect',
+    ],
+    places: [
+      'roller coaster', 'supermarket', 'camping trip', 'water park', 'amusement park',
+      'lemonade stand', 'picnic basket', 'zip line', 'farm', 'barn', 'ranch', 'rodeo',
+      'lasso', 'cowboy', 'cowgirl', 'treehouse', 'customer', 'price tag', 'bargain',
+      'shopping', 'backyard', 'patio', 'beach day', 'fishing trip', 'lodge', 'deck',
+      'excursion', 'rides', 'lazy river', 'arcade', 'escape room', 'trivia night', 'spa day',
+      'massage', 'facial', 'manicure', 'pedicure', 'hair salon', 'flower shop', 'butcher',
+      'counter', 'fish market', 'farmers market', 'street', 'coffee shop', 'ice cream shop',
+      'pizza place', 'sushi restaurant', 'taco stand',
+    ],
+    actions: [
+      'flying kite', 'map reading', 'cave exploring', 'roasting marshmallows', 'grind',
+      'leap', 'flash', 'disappear', 'rescue', 'moving', 'unpacking', 'house cleaning',
+      'organize', 'speech', 'gossip', 'sharing', 'breathe', 'relax', 'measure',
+    ],
+    vehicles: [
+      'hot air balloon', 'traffic light', 'pizza delivery', 'ice cream truck',
+      'double decker bus', 'parachute', 'road trip', 'snow plow', 'snow blower', 'wheel',
+      'rover', 'pirate ship', 'truck', 'highway', 'cruise ship', 'jeep', 'delivery',
+      'food truck',
+    ],
+    sports: [
+      'snowboarding', 'scuba diving', 'trampoline', 'hiking', 'mountain climbing',
+      'rock climbing', 'snorkeling', 'scuba tank', 'ice skating', 'hockey', 'curling',
+      'ski lift', 'super bowl', 'football', 'tailgate', 'halftime', 'olympics', 'gold medal',
+      'marathon', 'running', 'water station', 'triathlon', 'cycling', 'gymnastics',
+      'balance beam', 'vault', 'floor routine', 'figure skating', 'ice rink', 'pair skating',
+      'halfpipe', 'slope', 'skateboarding', 'ramp', 'ollie', 'kickflip', 'sports game',
+      'stadium', 'scoreboard', 'referee', 'volleyball', 'ski trip', 'lane', 'strike',
+      'mini golf', 'putter', 'team', 'score', 'yoga class', 'mat', 'pose', 'gym', 'weights',
+      'treadmill', 'workout', 'sweat', 'muscle',
+    ],
+    clothing: [
+      'cap', 'tutu', 'boots', 'tailor', 'sew', 'fit', 'fabric',
+    ],
+    holidays: [
+      'snowball fight', 'fireworks', 'sledding', 'building a fort', 'pillow fight',
+      'blowing candles', 'opening presents', 'bride', 'groom', 'first dance', 'graduation',
+      'diploma', 'throw cap', 'celebration', 'thanksgiving', 'decorating tree',
+      'wrapping presents', 'caroling', 'new year', 'countdown', 'easter', 'egg hunt',
+      'valentine', 'cupid', 'love letter', 'garage sale', 'ceremony', 'reception',
+      'baby shower', 'gifts', 'decorations', 'retirement party', 'family reunion',
+      'slumber party', 'pool party',
+    ],
+    arts: [
+      'rock concert', 'movie theater', 'telling stories', 'singing songs', 'playing guitar',
+      'commercial', 'opening ceremony', 'crowd', 'guitar solo', 'encore', 'orchestra',
+      'cello', 'piano', 'ballet', 'pointe', 'pirouette', 'plie', 'broadway', 'musical',
+      'curtain call', 'standing ovation', 'art museum', 'gallery', 'frame', 'street art',
+      'graffiti', 'mural', 'spray paint', 'stencil', 'pottery', 'kiln', 'photography', 'lens',
+      'tripod', 'film set', 'director', 'actor', 'magic show', 'cooking show', 'game show',
+      'contestant', 'host', 'talk show', 'interview', 'audience', 'applause', 'news anchor',
+      'teleprompter', 'breaking news', 'weather report', 'concert', 'band', 'photos',
+      'stories', 'movies', 'music', 'screen', 'karaoke', 'song', 'book club',
+    ],
+    fantasy: [
+      'treasure hunt', 'shipwreck', 'torch', 'treasure map', 'fairy tale', 'princess',
+      'magic', 'villain', 'powers', 'time machine', 'scroll', 'hideout', 'secret',
+    ],
+    science: [
+      'first aid kit', 'science experiment', 'solar system', 'microscope', 'shooting star',
+      'eclipse', 'aurora', 'water cycle', 'evaporation', 'condensation', 'precipitation',
+      'pipeline', 'space station', 'zero gravity', 'spacewalk', 'earth', 'mars', 'launch',
+      'periscope', 'torpedo', 'sonar', 'invention', 'light bulb', 'idea', 'blueprint',
+      'experiment', 'laboratory', 'beaker', 'formula', 'discovery', 'scientist', 'forecast',
+      'temperature', 'radar', 'wifi',
+    ],
+    misc: [
+      'trick', 'clue', 'mystery', 'club', 'obstacle', 'hole', 'color', 'stand', 'cozy',
+    ],
+  },
+};
+
+// Fine for grown-ups, left out of kid-safe games
+const NOT_KID_SAFE = new Set([
+  'wine', 'champagne', 'mimosa', 'happy hour', 'syringe', 'pill',
+]);
+
+// Other answers accepted for a word. Spacing, hyphens, accents and plurals
+// are already forgiven (lib/guessMatch.ts), so only real synonyms go here.
+export const WORD_ALIASES: Record<string, string[]> = {
+  airplane: ['plane', 'aeroplane', 'jet'],
+  bicycle: ['bike'],
+  bike: ['bicycle'],
+  bunny: ['rabbit'],
+  donut: ['doughnut'],
+  glasses: ['spectacles', 'eyeglasses'],
+  hamburger: ['burger'],
+  phone: ['telephone', 'cellphone'],
+  rabbit: ['bunny'],
+  rollerblade: ['rollerskate', 'inline skate'],
+  sofa: ['couch'],
+  soccer: ['football'],
+  spaceship: ['spacecraft', 'ufo'],
+  'teddy bear': ['teddy'],
 };
+
+// Flatten the tier/category lists into pack entries
+const tagWords = (lists: typeof CLASSIC_WORDS): PackWord[] =>
+  (Object.keys(lists) as Difficulty[]).flatMap(difficulty =>
+    (Object.entries(lists[difficulty]) as [WordCategory, string[]][]).flatMap(([category, words]) =>
+      words.map(word => ({
+        word,
+        difficulty,
+        categories: [category],
+        ...(WORD_ALIASES[word] && { aliases: WORD_ALIASES[word] }),
+        kid_safe: !NOT_KID_SAFE.has(word),
+      }))
+    )
+  );
+
+export const CLASSIC_PACK: ThemedWordPack = {
+  id: 'classic',
+  name: 'Classic',
+  locale: 'en',
+  words: tagWords(CLASSIC_WORDS),
+};
+
+export const BUILT_IN_PACKS: ThemedWordPack[] = [CLASSIC_PACK];
+
+const aliasIndex = new Map(BUILT_IN_PACKS.flatMap(p => p.words).map(w => [w.word, w.aliases ?? []]));
+
+export const aliasesFor = (word: string): string[] => aliasIndex.get(word) ?? [];
@@ -11,9 +11,21 @@ import {
   Alert,
   Keyboard,
 } from 'react-native';
+import { JoinAnswer, JoinRejectReason } from '../types/multiplayer';
+
+// What to tell a player who wasn't let in
+export const JOIN_REJECT_MESSAGES: Record<JoinRejectReason, { title: string; message: string }> = {
+  wrong_code: { title: 'Room Not Found', message: 'No room has that code. Check it and try again.' },
+  full: { title: 'Room Full', message: 'This room has no space left. Ask the host to raise the player limit.' },
+  in_progress: { title: 'Game In Progress', message: 'This game has already started. Wait for the next one!' },
+  banned: { title: 'Not Allowed', message: 'The host has removed you from this room.' },
+  locked: { title: 'Room Locked', message: 'The host has locked this room to new players.' },
+  no_response: { title: 'No Answer', message: 'The host didn\'t respond. Try again in a moment.' },
+  failed: { title: 'Error', message: 'Could not join room. Check your connection and try again.' },
+};
 
 interface JoinRoomScreenProps {
-  onJoinRoom: (code: string, playerName: string) => Promise<boolean>;
+  onJoinRoom: (code: string, playerName: string) => Promise<JoinAnswer>;
   onBack: () => void;
   onJoined: () => void;
 }
@@ -42,13 +54,14 @@ export const JoinRoomScreen: React.FC<JoinRoomScreenProps> = ({
     Keyboard.dismiss();
     setIsLoading(true);
     
-    const success = await onJoinRoom(roomCode.toUpperCase(), playerName.trim());
+    const answer = await onJoinRoom(roomCode.toUpperCase(), playerName.trim());
     setIsLoading(false);
 
-    if (success) {
+    if (answer.accepted) {
       onJoined();
     } else {
-      Alert.alert('Error', 'Could not join room. Check the code and try again.');
+      const { title, message } = JOIN_REJECT_MESSAGES[answer.reason];
+      Alert.alert(title, message);
     }
   };
 
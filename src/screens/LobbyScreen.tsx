@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -9,17 +9,43 @@ import {
   Share,
   Animated,
   Easing,
+  Alert,
+  Modal,
 } from 'react-native';
 import * as Haptics from 'expo-haptics';
-import { Player, Room } from '../types/multiplayer';
+import { Player, Room, RoomSettings, TeamNumber, WordCategory } from '../types/multiplayer';
+import { DIFFICULTIES, GAME_MODES, LobbySettings, MIN_FREE_FOR_ALL_PLAYERS, SETTINGS_LIMITS } from '../lib/roomSettings';
+import { getTeamInfo, placeUnassigned, teamNumbers, TEAM_INFO } from '../lib/teams';
+import { SCORING_PRESETS, SCORING_PRESET_NAMES } from '../lib/scoring';
+import { toRoomWordPack } from '../lib/wordPacks';
+import { CATEGORIES } from '../lib/words';
+import { useWordPacks } from '../hooks/useWordPacks';
+import { WordPacksScreen } from './WordPacksScreen';
+
+const DIFFICULTY_LABELS: Record<RoomSettings['difficulty'], string> = {
+  easy: '🟢 Easy',
+  medium: '🟡 Medium',
+  hard: '🔴 Hard',
+};
+
+const MODE_LABELS: Record<RoomSettings['mode'], string> = {
+  teams: '🏳️ Teams',
+  free_for_all: '🎨 Free-for-all',
+};
 
 interface LobbyScreenProps {
   room: Room;
   players: Player[];
   currentPlayer: Player | null;
-  onJoinTeam: (team: 1 | 2) => void;
+  onJoinTeam: (team: TeamNumber) => void;
   onToggleReady: () => void;
   onStartGame: () => void;
+  onUpdateSettings: (settings: LobbySettings) => void;
+  onKickPlayer: (playerId: string) => void;
+  onBanPlayer: (playerId: string) => void;
+  onSetLocked: (locked: boolean) => void;
+  onShuffleTeams: () => void;
+  onBalanceTeams: (useScores: boolean) => void;
   onLeave: () => void;
 }
 
@@ -30,25 +56,36 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
   onJoinTeam,
   onToggleReady,
   onStartGame,
+  onUpdateSettings,
+  onKickPlayer,
+  onBanPlayer,
+  onSetLocked,
+  onShuffleTeams,
+  onBalanceTeams,
   onLeave,
 }) => {
-  const team1Players = players.filter(p => p.team === 1);
-  const team2Players = players.filter(p => p.team === 2);
+  const teamCount = room.settings.team_count;
+  const isFreeForAll = room.settings.mode === 'free_for_all';
+  const teams = teamNumbers(teamCount) as TeamNumber[];
   const unassignedPlayers = players.filter(p => p.team === null);
-  const allReady = players.length >= 4 && players.every(p => p.is_ready);
-  const canStart = currentPlayer?.is_host && allReady && team1Players.length >= 2 && team2Players.length >= 2;
+  // Players without a team are placed automatically when the game starts
+  const minPlayers = isFreeForAll ? MIN_FREE_FOR_ALL_PLAYERS : teamCount * 2;
+  const placedTeams = Object.values(placeUnassigned(players, teamCount));
+  const allReady = players.length >= minPlayers &&
+    players.every(p => p.is_ready || (!isFreeForAll && p.team === null));
+  const canStart = currentPlayer?.is_host && allReady &&
+    (isFreeForAll || teams.every(team => placedTeams.filter(t => t === team).length >= 2));
 
   // Animations
   const headerAnim = useRef(new Animated.Value(0)).current;
-  const team1Anim = useRef(new Animated.Value(100)).current;
-  const team2Anim = useRef(new Animated.Value(-100)).current;
+  // Team cards slide in from alternating sides
+  const teamAnims = useRef(TEAM_INFO.map((_, i) => new Animated.Value(i % 2 === 0 ? 100 : -100))).current;
   const vsScale = useRef(new Animated.Value(0)).current;
   const actionsAnim = useRef(new Animated.Value(50)).current;
   const readyButtonScale = useRef(new Animated.Value(1)).current;
   const startButtonScale = useRef(new Animated.Value(1)).current;
   const pulseAnim = useRef(new Animated.Value(1)).current;
-  const team1ButtonScale = useRef(new Animated.Value(1)).current;
-  const team2ButtonScale = useRef(new Animated.Value(1)).current;
+  const teamButtonScales = useRef(TEAM_INFO.map(() => new Animated.Value(1))).current;
 
   useEffect(() => {
     // Entrance animations
@@ -58,20 +95,15 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
         duration: 300,
         useNativeDriver: true,
       }),
-      Animated.spring(team1Anim, {
-        toValue: 0,
-        friction: 6,
-        tension: 80,
-        delay: 200,
-        useNativeDriver: true,
-      }),
-      Animated.spring(team2Anim, {
-        toValue: 0,
-        friction: 6,
-        tension: 80,
-        delay: 300,
-        useNativeDriver: true,
-      }),
+      ...teamAnims.map((anim, i) =>
+        Animated.spring(anim, {
+          toValue: 0,
+          friction: 6,
+          tension: 80,
+          delay: 200 + i * 100,
+          useNativeDriver: true,
+        })
+      ),
       Animated.spring(vsScale, {
         toValue: 1,
         friction: 4,
@@ -135,8 +167,8 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
     ]).start(onStartGame);
   };
 
-  const handleTeamPress = (team: 1 | 2) => {
-    const scale = team === 1 ? team1ButtonScale : team2ButtonScale;
+  const handleTeamPress = (team: TeamNumber) => {
+    const scale = teamButtonScales[team - 1];
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     Animated.sequence([
       Animated.timing(scale, { toValue: 0.95, duration: 100, useNativeDriver: true }),
@@ -145,6 +177,102 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
     onJoinTeam(team);
   };
 
+  const isHost = !!currentPlayer?.is_host;
+
+  const updateSettings = (changes: Partial<RoomSettings>, totalRounds = room.total_rounds) => {
+    Haptics.selectionAsync();
+    onUpdateSettings({ settings: { ...room.settings, ...changes }, total_rounds: totalRounds });
+  };
+
+  // Host's custom word lists (the chosen one goes out to the room with the settings)
+  const { packs, setPacks } = useWordPacks();
+  const [showWordPacks, setShowWordPacks] = useState(false);
+
+  const closeWordPacks = () => {
+    setShowWordPacks(false);
+    // The room has its own copy of the chosen list: send it any edits
+    const chosen = packs.find(p => p.id === room.settings.word_pack?.id);
+    if (chosen) updateSettings({ word_pack: toRoomWordPack(chosen) });
+  };
+
+  // Pick or drop a topic (none picked means any topic)
+  const toggleCategory = (id: WordCategory): WordCategory[] =>
+    room.settings.categories.includes(id)
+      ? room.settings.categories.filter(c => c !== id)
+      : [...room.settings.categories, id];
+
+  // Host gets - / + buttons, everyone else just sees the value
+  const renderStepper = (
+    label: string,
+    value: number,
+    limits: { min: number; max: number; step: number },
+    onChange: (value: number) => void,
+    format: (value: number) => string = String
+  ) => (
+    <View style={styles.settingRow}>
+      <Text style={styles.settingLabel}>{label}</Text>
+      <View style={styles.stepper}>
+        {isHost && (
+          <TouchableOpacity
+            style={[styles.stepperButton, value <= limits.min && styles.stepperButtonDisabled]}
+            onPress={() => onChange(value - limits.step)}
+            disabled={value <= limits.min}
+          >
+            <Text style={styles.stepperButtonText}>−</Text>
+          </TouchableOpacity>
+        )}
+        <Text style={styles.settingValue}>{format(value)}</Text>
+        {isHost && (
+          <TouchableOpacity
+            style={[styles.stepperButton, value >= limits.max && styles.stepperButtonDisabled]}
+            onPress={() => onChange(value + limits.step)}
+            disabled={value >= limits.max}
+          >
+            <Text style={styles.stepperButtonText}>+</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+
+  const handleRemovePress = (player: Player) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    Alert.alert(
+      `Remove ${player.name}?`,
+      'Kicked players can join again. Banned players can\'t come back to this room.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Kick', onPress: () => onKickPlayer(player.id) },
+        { text: 'Ban', style: 'destructive', onPress: () => onBanPlayer(player.id) },
+      ]
+    );
+  };
+
+  const handleBalancePress = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Alert.alert('Balance Teams', 'Even out the teams by...', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Team size', onPress: () => onBalanceTeams(false) },
+      { text: 'Size + past scores', onPress: () => onBalanceTeams(true) },
+    ]);
+  };
+
+  const handleShufflePress = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    onShuffleTeams();
+  };
+
+  const handleLockPress = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onSetLocked(!room.locked);
+  };
+
+  // Can't drop max players below who's already here (or what the mode needs)
+  const maxPlayersLimits = {
+    ...SETTINGS_LIMITS.max_players,
+    min: Math.max(SETTINGS_LIMITS.max_players.min, players.length, minPlayers),
+  };
+
   const renderPlayer = (player: Player, index: number) => {
     return (
       <Animated.View 
@@ -163,29 +291,45 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
             <Text style={styles.youLabel}>(You)</Text>
           )}
         </View>
-        <View style={[
-          styles.readyBadge,
-          player.is_ready ? styles.readyBadgeActive : styles.readyBadgeInactive,
-        ]}>
-          <Text style={styles.readyText}>
-            {player.is_ready ? '✓ Ready' : 'Waiting'}
-          </Text>
+        <View style={styles.playerActions}>
+          <View style={[
+            styles.readyBadge,
+            player.is_ready ? styles.readyBadgeActive : styles.readyBadgeInactive,
+          ]}>
+            <Text style={styles.readyText}>
+              {player.is_ready ? '✓ Ready' : 'Waiting'}
+            </Text>
+          </View>
+          {isHost && player.id !== currentPlayer?.id && (
+            <TouchableOpacity style={styles.removeButton} onPress={() => handleRemovePress(player)}>
+              <Text style={styles.removeButtonText}>✕</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </Animated.View>
     );
   };
 
-  const isOnTeam1 = currentPlayer?.team === 1;
-  const isOnTeam2 = currentPlayer?.team === 2;
-  const hasNoTeam = !currentPlayer?.team;
+  const hasNoTeam = !isFreeForAll && !currentPlayer?.team;
 
   return (
     <SafeAreaView style={styles.container}>
+      <Modal visible={showWordPacks} animationType="slide" onRequestClose={closeWordPacks}>
+        <WordPacksScreen packs={packs} historyKey={room.host_id} onPacksChanged={setPacks} onClose={closeWordPacks} />
+      </Modal>
+
       <Animated.View style={[styles.header, { opacity: headerAnim }]}>
         <TouchableOpacity style={styles.leaveButton} onPress={onLeave}>
           <Text style={styles.leaveText}>← Leave</Text>
         </TouchableOpacity>
         <View style={styles.roomInfo}>
+          {isHost ? (
+            <TouchableOpacity onPress={handleLockPress} style={[styles.lockButton, room.locked && styles.lockButtonActive]}>
+              <Text style={styles.lockButtonText}>{room.locked ? '🔒' : '🔓'}</Text>
+            </TouchableOpacity>
+          ) : room.locked && (
+            <Text style={styles.lockButtonText}>🔒</Text>
+          )}
           <Text style={styles.roomCode}>{room.code}</Text>
           <TouchableOpacity onPress={handleShare} style={styles.shareButtonContainer}>
             <Text style={styles.shareButton}>📤 Share</Text>
@@ -202,106 +346,295 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
           </Animated.View>
         )}
 
-        {/* Unassigned Players */}
-        {unassignedPlayers.length > 0 && (
-          <View style={styles.unassignedSection}>
-            <Text style={styles.sectionTitle}>👋 Waiting for team</Text>
-            {unassignedPlayers.map((p, i) => renderPlayer(p, i))}
+        {/* Game Settings */}
+        <View style={styles.settingsSection}>
+          <Text style={styles.sectionTitle}>
+            ⚙️ Game Settings{!isHost && ' (set by host)'}
+          </Text>
+          {renderStepper('⏱️ Timer', room.settings.timer_seconds, SETTINGS_LIMITS.timer_seconds,
+            timer_seconds => updateSettings({ timer_seconds }), s => `${s}s`)}
+          {renderStepper('💡 Hints', room.settings.hint_count, SETTINGS_LIMITS.hint_count,
+            hint_count => updateSettings({ hint_count }), n => (n === 0 ? 'Off' : `${n} letter${n === 1 ? '' : 's'}`))}
+          {renderStepper('🔁 Rounds', room.total_rounds, SETTINGS_LIMITS.total_rounds,
+            rounds => updateSettings({}, rounds))}
+          <View style={styles.settingRow}>
+            <Text style={styles.settingLabel}>🎲 Mode</Text>
+            {isHost ? (
+              <View style={styles.segmented}>
+                {GAME_MODES.map(mode => (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[styles.segment, room.settings.mode === mode && styles.segmentActive]}
+                    onPress={() => updateSettings({ mode })}
+                  >
+                    <Text style={[styles.segmentText, room.settings.mode === mode && styles.segmentTextActive]}>
+                      {MODE_LABELS[mode]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ) : (
+              <Text style={styles.settingValue}>{MODE_LABELS[room.settings.mode]}</Text>
+            )}
           </View>
-        )}
+          {!isFreeForAll && renderStepper('🏳️ Teams', teamCount, SETTINGS_LIMITS.team_count,
+            team_count => updateSettings({ team_count: team_count as RoomSettings['team_count'] }))}
+          {renderStepper('👥 Max players', room.settings.max_players, maxPlayersLimits,
+            max_players => updateSettings({ max_players }))}
 
-        {/* Teams Container */}
-        <View style={styles.teamsContainer}>
-          {/* Team 1 - Blue */}
-          <Animated.View style={[
-            styles.teamSection,
-            { transform: [{ translateX: team1Anim }, { scale: team1ButtonScale }] },
-            isOnTeam1 && styles.myTeamSection,
-          ]}>
-            <TouchableOpacity
-              style={[styles.teamCard, styles.team1Card]}
-              onPress={() => handleTeamPress(1)}
-              disabled={isOnTeam1}
-              activeOpacity={0.8}
-            >
-              <View style={styles.teamHeaderRow}>
-                <Text style={styles.teamEmoji}>🔵</Text>
-                <View style={styles.teamHeaderText}>
-                  <Text style={styles.teamTitle}>Team Blue</Text>
-                  <Text style={styles.teamCount}>{team1Players.length} player{team1Players.length !== 1 ? 's' : ''}</Text>
-                </View>
-                {!isOnTeam1 && (
-                  <View style={styles.joinBadge}>
-                    <Text style={styles.joinBadgeText}>JOIN</Text>
-                  </View>
-                )}
-                {isOnTeam1 && (
-                  <View style={styles.yourTeamBadge}>
-                    <Text style={styles.yourTeamText}>YOUR TEAM</Text>
+          <View style={styles.settingRow}>
+            <Text style={styles.settingLabel}>📚 Word list</Text>
+            {isHost ? (
+              <TouchableOpacity style={styles.segment} onPress={() => setShowWordPacks(true)}>
+                <Text style={styles.segmentText}>✏️ My lists</Text>
+              </TouchableOpacity>
+            ) : (
+              <Text style={styles.settingValue}>{room.settings.word_pack?.name ?? 'Built-in'}</Text>
+            )}
+          </View>
+          {isHost && (
+            <View style={[styles.segmented, styles.segmentedWrap]}>
+              <TouchableOpacity
+                style={[styles.segment, !room.settings.word_pack && styles.segmentActive]}
+                onPress={() => updateSettings({ word_pack: null })}
+              >
+                <Text style={[styles.segmentText, !room.settings.word_pack && styles.segmentTextActive]}>Built-in</Text>
+              </TouchableOpacity>
+              {packs.map(pack => {
+                const selected = room.settings.word_pack?.id === pack.id;
+                return (
+                  <TouchableOpacity
+                    key={pack.id}
+                    style={[styles.segment, selected && styles.segmentActive]}
+                    onPress={() => updateSettings({ word_pack: toRoomWordPack(pack) })}
+                  >
+                    <Text style={[styles.segmentText, selected && styles.segmentTextActive]}>{pack.name}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
+          {/* Custom lists have no tiers or topics */}
+          {!room.settings.word_pack && (
+            <>
+              <View style={styles.settingRow}>
+                <Text style={styles.settingLabel}>🎯 Words</Text>
+                {isHost ? (
+                  <View style={styles.segmented}>
+                    {DIFFICULTIES.map(difficulty => (
+                      <TouchableOpacity
+                        key={difficulty}
+                        style={[styles.segment, room.settings.difficulty === difficulty && styles.segmentActive]}
+                        onPress={() => updateSettings({ difficulty })}
+                      >
+                        <Text style={[styles.segmentText, room.settings.difficulty === difficulty && styles.segmentTextActive]}>
+                          {DIFFICULTY_LABELS[difficulty]}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
                   </View>
-                )}
-              </View>
-              
-              <View style={styles.teamPlayers}>
-                {team1Players.length === 0 ? (
-                  <Text style={styles.emptyTeam}>Be the first to join!</Text>
                 ) : (
-                  team1Players.map((p, i) => renderPlayer(p, i))
+                  <Text style={styles.settingValue}>{DIFFICULTY_LABELS[room.settings.difficulty]}</Text>
                 )}
               </View>
-            </TouchableOpacity>
-          </Animated.View>
-
-          {/* VS Badge */}
-          <Animated.View style={[styles.vsContainer, { transform: [{ scale: vsScale }] }]}>
-            <Text style={styles.vsText}>VS</Text>
-          </Animated.View>
-
-          {/* Team 2 - Red */}
-          <Animated.View style={[
-            styles.teamSection,
-            { transform: [{ translateX: team2Anim }, { scale: team2ButtonScale }] },
-            isOnTeam2 && styles.myTeamSection,
-          ]}>
-            <TouchableOpacity
-              style={[styles.teamCard, styles.team2Card]}
-              onPress={() => handleTeamPress(2)}
-              disabled={isOnTeam2}
-              activeOpacity={0.8}
-            >
-              <View style={styles.teamHeaderRow}>
-                <Text style={styles.teamEmoji}>🔴</Text>
-                <View style={styles.teamHeaderText}>
-                  <Text style={styles.teamTitle}>Team Red</Text>
-                  <Text style={styles.teamCount}>{team2Players.length} player{team2Players.length !== 1 ? 's' : ''}</Text>
-                </View>
-                {!isOnTeam2 && (
-                  <View style={[styles.joinBadge, styles.joinBadgeRed]}>
-                    <Text style={styles.joinBadgeText}>JOIN</Text>
-                  </View>
-                )}
-                {isOnTeam2 && (
-                  <View style={styles.yourTeamBadge}>
-                    <Text style={styles.yourTeamText}>YOUR TEAM</Text>
-                  </View>
-                )}
+              <View style={styles.settingRow}>
+                <Text style={styles.settingLabel}>🏷️ Topics</Text>
+                <Text style={styles.settingValue}>
+                  {room.settings.categories.length === 0
+                    ? 'Any'
+                    : isHost
+                      ? `${room.settings.categories.length} picked`
+                      : CATEGORIES.filter(c => room.settings.categories.includes(c.id)).map(c => c.emoji).join(' ')}
+                </Text>
               </View>
-              
-              <View style={styles.teamPlayers}>
-                {team2Players.length === 0 ? (
-                  <Text style={styles.emptyTeam}>Be the first to join!</Text>
+              {isHost && (
+                <View style={[styles.segmented, styles.segmentedWrap]}>
+                  <TouchableOpacity
+                    style={[styles.segment, room.settings.categories.length === 0 && styles.segmentActive]}
+                    onPress={() => updateSettings({ categories: [] })}
+                  >
+                    <Text style={[styles.segmentText, room.settings.categories.length === 0 && styles.segmentTextActive]}>Any</Text>
+                  </TouchableOpacity>
+                  {CATEGORIES.map(category => {
+                    const selected = room.settings.categories.includes(category.id);
+                    return (
+                      <TouchableOpacity
+                        key={category.id}
+                        style={[styles.segment, selected && styles.segmentActive]}
+                        onPress={() => updateSettings({ categories: toggleCategory(category.id) })}
+                      >
+                        <Text style={[styles.segmentText, selected && styles.segmentTextActive]}>
+                          {category.emoji} {category.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+              <View style={styles.settingRow}>
+                <Text style={styles.settingLabel}>🧒 Kid-safe</Text>
+                {isHost ? (
+                  <TouchableOpacity
+                    style={[styles.toggle, room.settings.kid_safe && styles.toggleActive]}
+                    onPress={() => updateSettings({ kid_safe: !room.settings.kid_safe })}
+                  >
+                    <Text style={styles.toggleText}>{room.settings.kid_safe ? 'ON' : 'OFF'}</Text>
+                  </TouchableOpacity>
                 ) : (
-                  team2Players.map((p, i) => renderPlayer(p, i))
+                  <Text style={styles.settingValue}>{room.settings.kid_safe ? 'On' : 'Off'}</Text>
                 )}
               </View>
-            </TouchableOpacity>
-          </Animated.View>
+            </>
+          )}
+          {renderStepper('🃏 Word choices', room.settings.word_choices, SETTINGS_LIMITS.word_choices,
+            word_choices => updateSettings({ word_choices }), n => (n === 1 ? 'Off' : String(n)))}
+          {room.settings.word_choices > 1 && !room.settings.word_pack && (
+            <View style={styles.settingRow}>
+              <Text style={styles.settingLabel}>🌈 Mix difficulties</Text>
+              {isHost ? (
+                <TouchableOpacity
+                  style={[styles.toggle, room.settings.mixed_difficulty && styles.toggleActive]}
+                  onPress={() => updateSettings({ mixed_difficulty: !room.settings.mixed_difficulty })}
+                >
+                  <Text style={styles.toggleText}>{room.settings.mixed_difficulty ? 'ON' : 'OFF'}</Text>
+                </TouchableOpacity>
+              ) : (
+                <Text style={styles.settingValue}>{room.settings.mixed_difficulty ? 'On' : 'Off'}</Text>
+              )}
+            </View>
+          )}
+
+          <View style={styles.settingRow}>
+            <Text style={styles.settingLabel}>🧮 Scoring</Text>
+            {isHost ? (
+              <View style={styles.segmented}>
+                {SCORING_PRESET_NAMES.map(scoring => (
+                  <TouchableOpacity
+                    key={scoring}
+                    style={[styles.segment, room.settings.scoring === scoring && styles.segmentActive]}
+                    onPress={() => updateSettings({ scoring })}
+                  >
+                    <Text style={[styles.segmentText, room.settings.scoring === scoring && styles.segmentTextActive]}>
+                      {SCORING_PRESETS[scoring].label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ) : (
+              <Text style={styles.settingValue}>{SCORING_PRESETS[room.settings.scoring].label}</Text>
+            )}
+          </View>
+
+          {!isFreeForAll && (
+            <View style={styles.settingRow}>
+              <Text style={styles.settingLabel}>🤝 Tag team</Text>
+              {isHost ? (
+                <TouchableOpacity
+                  style={[styles.toggle, room.settings.allow_tag_team && styles.toggleActive]}
+                  onPress={() => updateSettings({ allow_tag_team: !room.settings.allow_tag_team })}
+                >
+                  <Text style={styles.toggleText}>{room.settings.allow_tag_team ? 'ON' : 'OFF'}</Text>
+                </TouchableOpacity>
+              ) : (
+                <Text style={styles.settingValue}>{room.settings.allow_tag_team ? 'On' : 'Off'}</Text>
+              )}
+            </View>
+          )}
         </View>
+
+        {/* Free-for-all: no teams, everyone draws in turn */}
+        {isFreeForAll && (
+          <View style={styles.unassignedSection}>
+            <Text style={styles.sectionTitle}>🎨 Players ({players.length})</Text>
+            {players.map((p, i) => renderPlayer(p, i))}
+          </View>
+        )}
+
+        {/* Unassigned Players */}
+        {!isFreeForAll && unassignedPlayers.length > 0 && (
+          <View style={styles.unassignedSection}>
+            <Text style={styles.sectionTitle}>👋 Waiting for team</Text>
+            {unassignedPlayers.map((p, i) => renderPlayer(p, i))}
+          </View>
+        )}
+
+        {/* Host team tools */}
+        {isHost && !isFreeForAll && players.length > 1 && (
+          <View style={styles.teamTools}>
+            <TouchableOpacity style={styles.teamToolButton} onPress={handleShufflePress}>
+              <Text style={styles.teamToolText}>🔀 Shuffle</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.teamToolButton} onPress={handleBalancePress}>
+              <Text style={styles.teamToolText}>⚖️ Balance</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Teams Container */}
+        {!isFreeForAll && (
+          <View style={styles.teamsContainer}>
+            {teams.map((team, index) => {
+              const info = getTeamInfo(team);
+              const teamPlayers = players.filter(p => p.team === team);
+              const isMyTeam = currentPlayer?.team === team;
+              return (
+                <React.Fragment key={team}>
+                  {/* VS Badge */}
+                  {index > 0 && (
+                    <Animated.View style={[styles.vsContainer, { transform: [{ scale: vsScale }] }]}>
+                      <Text style={styles.vsText}>VS</Text>
+                    </Animated.View>
+                  )}
+
+                  <Animated.View style={[
+                    styles.teamSection,
+                    { transform: [{ translateX: teamAnims[team - 1] }, { scale: teamButtonScales[team - 1] }] },
+                    isMyTeam && styles.myTeamSection,
+                  ]}>
+                    <TouchableOpacity
+                      style={[styles.teamCard, { backgroundColor: `${info.color}40`, borderColor: `${info.color}80` }]}
+                      onPress={() => handleTeamPress(team)}
+                      disabled={isMyTeam}
+                      activeOpacity={0.8}
+                    >
+                      <View style={styles.teamHeaderRow}>
+                        <Text style={styles.teamEmoji}>{info.emoji}</Text>
+                        <View style={styles.teamHeaderText}>
+                          <Text style={styles.teamTitle}>Team {info.name}</Text>
+                          <Text style={styles.teamCount}>{teamPlayers.length} player{teamPlayers.length !== 1 ? 's' : ''}</Text>
+                        </View>
+                        {!isMyTeam && (
+                          <View style={[styles.joinBadge, { backgroundColor: info.color }]}>
+                            <Text style={styles.joinBadgeText}>JOIN</Text>
+                          </View>
+                        )}
+                        {isMyTeam && (
+                          <View style={styles.yourTeamBadge}>
+                            <Text style={styles.yourTeamText}>YOUR TEAM</Text>
+                          </View>
+                        )}
+                      </View>
+                      
+                      <View style={styles.teamPlayers}>
+                        {teamPlayers.length === 0 ? (
+                          <Text style={styles.emptyTeam}>Be the first to join!</Text>
+                        ) : (
+                          teamPlayers.map((p, i) => renderPlayer(p, i))
+                        )}
+                      </View>
+                    </TouchableOpacity>
+                  </Animated.View>
+                </React.Fragment>
+              );
+            })}
+          </View>
+        )}
       </ScrollView>
 
       {/* Bottom Actions */}
       <Animated.View style={[styles.actions, { transform: [{ translateY: actionsAnim }] }]}>
-        {currentPlayer?.team ? (
+        {isFreeForAll || currentPlayer?.team ? (
           <>
             <Animated.View style={{ transform: [{ scale: readyButtonScale }] }}>
               <TouchableOpacity
@@ -330,7 +663,11 @@ export const LobbyScreen: React.FC<LobbyScreenProps> = ({
                   activeOpacity={0.9}
                 >
                   <Text style={styles.startButtonText}>
-                    {canStart ? '🎮 Start Game!' : players.length < 4 ? 'Need 4+ players to start' : 'Need 2 players per team'}
+                    {canStart
+                      ? '🎮 Start Game!'
+                      : players.length < minPlayers
+                        ? `Need ${minPlayers}+ players to start`
+                        : isFreeForAll ? 'Waiting for everyone to be ready' : 'Need 2 players per team'}
                   </Text>
                 </TouchableOpacity>
               </Animated.View>
@@ -379,6 +716,18 @@ const styles = StyleSheet.create({
     color: '#FFE66D',
     letterSpacing: 3,
   },
+  lockButton: {
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+  },
+  lockButtonActive: {
+    backgroundColor: 'rgba(255,107,107,0.6)',
+  },
+  lockButtonText: {
+    fontSize: 16,
+  },
   shareButtonContainer: {
     backgroundColor: 'rgba(255,255,255,0.2)',
     paddingVertical: 8,
@@ -427,6 +776,106 @@ const styles = StyleSheet.create({
     color: 'rgba(255,255,255,0.9)',
     marginBottom: 12,
   },
+  settingsSection: {
+    marginBottom: 16,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderRadius: 16,
+    padding: 16,
+    gap: 10,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  settingLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  settingValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#FFE66D',
+    minWidth: 48,
+    textAlign: 'center',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepperButton: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    backgroundColor: 'rgba(255,255,255,0.25)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonDisabled: {
+    opacity: 0.35,
+  },
+  stepperButtonText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  segmented: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  segmentedWrap: {
+    flexWrap: 'wrap',
+  },
+  segment: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+  },
+  segmentActive: {
+    backgroundColor: '#FFE66D',
+  },
+  segmentText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  segmentTextActive: {
+    color: '#5B3EE6',
+  },
+  toggle: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: 'rgba(255,255,255,0.25)',
+  },
+  toggleActive: {
+    backgroundColor: '#4ECDC4',
+  },
+  toggleText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  teamTools: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  teamToolButton: {
+    flex: 1,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    paddingVertical: 12,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  teamToolText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
   teamsContainer: {
     gap: 12,
   },
@@ -447,14 +896,6 @@ const styles = StyleSheet.create({
     borderWidth: 3,
     borderColor: 'transparent',
   },
-  team1Card: {
-    backgroundColor: 'rgba(78, 205, 196, 0.25)',
-    borderColor: 'rgba(78, 205, 196, 0.5)',
-  },
-  team2Card: {
-    backgroundColor: 'rgba(255, 107, 107, 0.25)',
-    borderColor: 'rgba(255, 107, 107, 0.5)',
-  },
   teamHeaderRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -484,9 +925,6 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     borderRadius: 20,
   },
-  joinBadgeRed: {
-    backgroundColor: '#FF6B6B',
-  },
   joinBadgeText: {
     color: '#fff',
     fontWeight: 'bold',
@@ -543,6 +981,24 @@ const styles = StyleSheet.create({
     color: '#FFE66D',
     fontWeight: '700',
   },
+  playerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  removeButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: 'rgba(255,107,107,0.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  removeButtonText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
   readyBadge: {
     paddingHorizontal: 12,
     paddingVertical: 6,
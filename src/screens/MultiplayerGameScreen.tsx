@@ -15,18 +15,26 @@ import {
   Keyboard,
   TouchableWithoutFeedback,
   Modal,
+  Alert,
 } from 'react-native';
 import Svg, { Path } from 'react-native-svg';
 import * as Haptics from 'expo-haptics';
-import { Player, Room, DrawingEvent, ChatMessage, DrawingPath } from '../types/multiplayer';
+import { Player, Room, DrawingInput, ChatMessage, DrawingPath, WordCandidate } from '../types/multiplayer';
+import { CANVAS_VIEWBOX, toLogical } from '../lib/canvas';
+import { createStrokeId } from '../lib/strokeStream';
+import { getTeamInfo, teamNumbers } from '../lib/teams';
+import { getTeamScores } from '../lib/gameEngine';
+import { formatHint } from '../lib/wordHints';
+import { secondsUntil } from '../lib/clock';
+import { DIFFICULTY_MULTIPLIERS } from '../lib/scoring';
+import { offersMixedWords } from '../lib/wordChoice';
 
 // Word Reveal Modal for Multiplayer
 interface WordRevealModalProps {
   visible: boolean;
   word: string;
   countdown: number;
-  teamEmoji: string;
-  teamName: string;
+  badgeText: string;
   teamBgColor: string;
 }
 
@@ -34,8 +42,7 @@ const WordRevealModal: React.FC<WordRevealModalProps> = ({
   visible,
   word,
   countdown,
-  teamEmoji,
-  teamName,
+  badgeText,
   teamBgColor,
 }) => {
   const cardScale = useRef(new Animated.Value(0.8)).current;
@@ -107,7 +114,7 @@ const WordRevealModal: React.FC<WordRevealModalProps> = ({
           <View style={[modalStyles.topAccent, { backgroundColor: teamBgColor }]} />
           
           <View style={[modalStyles.teamBadge, { backgroundColor: teamBgColor }]}>
-            <Text style={modalStyles.teamBadgeText}>{teamEmoji} Team {teamName}</Text>
+            <Text style={modalStyles.teamBadgeText}>{badgeText}</Text>
           </View>
           
           <View style={modalStyles.wordSection}>
@@ -282,6 +289,210 @@ const modalStyles = StyleSheet.create({
   },
 });
 
+// Drawer picks the round's word; the clock starts once they have
+interface WordChoiceModalProps {
+  visible: boolean;
+  candidates: WordCandidate[];
+  secondsLeft: number;
+  showDifficulty: boolean; // Mixed tiers: say which and what it pays
+  onChoose: (word: string) => void;
+}
+
+const DIFFICULTY_LABELS: Record<WordCandidate['difficulty'], string> = {
+  easy: '🟢 Easy',
+  medium: '🟡 Medium',
+  hard: '🔴 Hard',
+};
+
+const WordChoiceModal: React.FC<WordChoiceModalProps> = ({
+  visible,
+  candidates,
+  secondsLeft,
+  showDifficulty,
+  onChoose,
+}) => (
+  <Modal visible={visible} transparent animationType="fade">
+    <View style={wordChoiceStyles.overlay}>
+      <View style={wordChoiceStyles.card}>
+        <Text style={wordChoiceStyles.title}>✏️ Pick a word to draw</Text>
+        <Text style={wordChoiceStyles.subtitle}>
+          {secondsLeft > 0 ? `${secondsLeft}s to choose` : 'Picking one for you...'}
+        </Text>
+        {candidates.map(candidate => (
+          <TouchableOpacity
+            key={candidate.word}
+            style={wordChoiceStyles.option}
+            onPress={() => onChoose(candidate.word)}
+          >
+            <Text style={wordChoiceStyles.word}>{candidate.word.toUpperCase()}</Text>
+            {showDifficulty && (
+              <Text style={wordChoiceStyles.difficulty}>
+                {DIFFICULTY_LABELS[candidate.difficulty]} · ×{DIFFICULTY_MULTIPLIERS[candidate.difficulty]} points
+              </Text>
+            )}
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  </Modal>
+);
+
+const wordChoiceStyles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.85)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 24,
+    width: '88%',
+    maxWidth: 360,
+    padding: 20,
+    gap: 12,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#6B4EE6',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#888',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  option: {
+    backgroundColor: '#FFF5F5',
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: '#FFE0E0',
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+  },
+  word: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FF6B6B',
+    letterSpacing: 1,
+  },
+  difficulty: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+});
+
+// Host's list of players, to kick or ban someone mid-game
+interface PlayersModalProps {
+  visible: boolean;
+  players: Player[];
+  currentPlayerId: string | undefined;
+  onKick: (player: Player) => void;
+  onBan: (player: Player) => void;
+  onClose: () => void;
+}
+
+const PlayersModal: React.FC<PlayersModalProps> = ({
+  visible,
+  players,
+  currentPlayerId,
+  onKick,
+  onBan,
+  onClose,
+}) => (
+  <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+    <View style={playersModalStyles.overlay}>
+      <View style={playersModalStyles.card}>
+        <Text style={playersModalStyles.title}>👥 Players</Text>
+        {players.filter(p => p.id !== currentPlayerId).map(player => (
+          <View key={player.id} style={playersModalStyles.row}>
+            <Text style={playersModalStyles.name}>
+              {player.team ? getTeamInfo(player.team).emoji : '⚪'} {player.name}
+            </Text>
+            <TouchableOpacity style={playersModalStyles.kickButton} onPress={() => onKick(player)}>
+              <Text style={playersModalStyles.buttonText}>Kick</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={playersModalStyles.banButton} onPress={() => onBan(player)}>
+              <Text style={playersModalStyles.buttonText}>Ban</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+        <TouchableOpacity style={playersModalStyles.closeButton} onPress={onClose}>
+          <Text style={playersModalStyles.closeText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  </Modal>
+);
+
+const playersModalStyles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 24,
+    width: '88%',
+    maxWidth: 360,
+    padding: 20,
+    gap: 10,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#6B4EE6',
+    textAlign: 'center',
+    marginBottom: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  name: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  kickButton: {
+    backgroundColor: '#FFB347',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  banButton: {
+    backgroundColor: '#FF6B6B',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  buttonText: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  closeButton: {
+    marginTop: 8,
+    backgroundColor: '#6B4EE6',
+    padding: 12,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  closeText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+});
+
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const CANVAS_SIZE = SCREEN_WIDTH - 32;
 
@@ -305,16 +516,21 @@ interface MultiplayerGameScreenProps {
   drawings: DrawingPath[]; // From store - remote drawings
   word: string | null;
   timeRemaining: number;
-  onSendDrawing: (event: Omit<DrawingEvent, 'player_id'>) => void;
+  wordChoices: WordCandidate[]; // Ours to pick from, when we're about to draw
+  getSyncedNow: () => number;
+  onChooseWord: (word: string) => void;
+  onSendDrawing: (event: DrawingInput) => void;
   onSendChat: (text: string) => void;
   onTagTeam: (playerId: string) => void;
   onCorrectGuess: () => void;
   onSkipWord: () => void;
+  onKickPlayer: (playerId: string) => void;
+  onBanPlayer: (playerId: string) => void;
   onLeave: () => void;
 }
 
 const COLORS = ['#000000', '#FF0000', '#0000FF', '#00AA00', '#FFFFFF'];
-const DEFAULT_BRUSH_SIZE = 8;
+const DEFAULT_BRUSH_SIZE = 24; // Logical units (about 8pt on a phone)
 
 export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
   room,
@@ -324,11 +540,16 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
   drawings,
   word,
   timeRemaining,
+  wordChoices,
+  getSyncedNow,
+  onChooseWord,
   onSendDrawing,
   onSendChat,
   onTagTeam,
   onCorrectGuess,
   onSkipWord,
+  onKickPlayer,
+  onBanPlayer,
   onLeave,
 }) => {
   // Local drawing state (for the current path being drawn)
@@ -356,18 +577,25 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
   const correctGuessAnim = useRef(new Animated.Value(0)).current;
   const scoreAnim = useRef(new Animated.Value(1)).current;
   const [showCorrect, setShowCorrect] = useState(false);
+  const [showPlayers, setShowPlayers] = useState(false);
+  
+  // Word choice state (the word we picked needs no reveal)
+  const [choiceSecondsLeft, setChoiceSecondsLeft] = useState(0);
+  const chosenWordRef = useRef<string | null>(null);
 
   const isDrawing = currentPlayer?.is_drawing;
+  const isFreeForAll = room.settings.mode === 'free_for_all';
   const drawingTeam = room.drawing_team;
   const myTeam = currentPlayer?.team;
   // In Pictionary: teammates of the drawer guess, not the opposing team
   // You're a guesser if you're on the drawing team but NOT the drawer
-  const isGuessingTeam = myTeam === drawingTeam && !isDrawing;
+  // (in free-for-all, everyone but the drawer guesses)
+  const isGuessingTeam = (isFreeForAll || myTeam === drawingTeam) && !isDrawing;
   // You're watching if you're on the OTHER team (not drawing team)
-  const isWatchingTeam = myTeam !== drawingTeam;
+  const isWatchingTeam = !isFreeForAll && myTeam !== drawingTeam;
 
-  const team1Players = players.filter(p => p.team === 1);
-  const team2Players = players.filter(p => p.team === 2);
+  const teamScores = getTeamScores(players, room.settings.team_count);
+  const rankedPlayers = [...players].sort((a, b) => b.score - a.score);
   const currentDrawer = players.find(p => p.is_drawing);
   const teammates = players.filter(
     p => p.team === currentPlayer?.team && p.id !== currentPlayer?.id
@@ -394,9 +622,10 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
     
     // Show round transition (except for first round)
     if (room.current_round > 1 && !isDrawing) {
-      const teamName = room.drawing_team === 1 ? 'Blue' : 'Red';
-      const teamEmoji = room.drawing_team === 1 ? '🔵' : '🔴';
-      setTransitionMessage(`${teamEmoji} Team ${teamName}'s Turn!`);
+      const { name, emoji } = getTeamInfo(room.drawing_team);
+      setTransitionMessage(isFreeForAll
+        ? `🎨 ${players.find(p => p.is_drawing)?.name || 'Next player'}'s Turn!`
+        : `${emoji} Team ${name}'s Turn!`);
       setShowRoundTransition(true);
       
       Animated.sequence([
@@ -430,6 +659,7 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
     if (isDrawing && currentWord && (isNewRound || isNewWord)) {
       lastRoundRef.current = currentRound;
       lastWordRef.current = currentWord;
+      if (currentWord === chosenWordRef.current) return; // We picked it, so we know it
       
       // Clear any existing timer
       if (wordRevealTimerRef.current) {
@@ -465,6 +695,22 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
     }
   }, [isDrawing, word, room.current_round]);
 
+  // Count down the drawer's word choice on the host's clock
+  const choiceDeadline = room.word_choice?.deadline;
+  useEffect(() => {
+    if (!choiceDeadline) return;
+    const tick = () => setChoiceSecondsLeft(secondsUntil(choiceDeadline, getSyncedNow()));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [choiceDeadline, getSyncedNow]);
+
+  const handleChooseWord = useCallback((chosen: string) => {
+    chosenWordRef.current = chosen;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    onChooseWord(chosen);
+  }, [onChooseWord]);
+
   // Timer pulse animation when low
   useEffect(() => {
     if (timeRemaining <= 10 && timeRemaining > 0) {
@@ -519,12 +765,13 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
   const handleTouchStart = useCallback((event: any) => {
     if (!isDrawing) return;
 
+    // Paths are kept and sent in logical canvas units
     const touch = event.nativeEvent;
-    const x = touch.locationX;
-    const y = touch.locationY;
+    const x = toLogical(touch.locationX, CANVAS_SIZE);
+    const y = toLogical(touch.locationY, CANVAS_SIZE);
 
     const newPath: LocalPath = {
-      id: `local_${Date.now()}`,
+      id: createStrokeId(),
       points: [{ x, y }],
       color: selectedColor,
       brushSize,
@@ -533,6 +780,7 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
     setCurrentPath(newPath);
     onSendDrawing({
       type: 'start',
+      stroke_id: newPath.id,
       x,
       y,
       color: selectedColor,
@@ -548,8 +796,8 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
     if (!isDrawing || !currentPath) return;
 
     const touch = event.nativeEvent;
-    const x = touch.locationX;
-    const y = touch.locationY;
+    const x = toLogical(touch.locationX, CANVAS_SIZE);
+    const y = toLogical(touch.locationY, CANVAS_SIZE);
 
     setCurrentPath(prev => {
       if (!prev) return null;
@@ -597,17 +845,21 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
   }, [onSendDrawing, selectedColor, brushSize]);
 
-  // Undo last stroke
+  // Undo our last stroke (by ID, so nobody else's strokes are touched)
   const handleUndo = useCallback(() => {
-    setLocalPaths(prev => prev.slice(0, -1));
+    const lastPath = localPaths[localPaths.length - 1];
+    if (!lastPath) return;
+    
+    setLocalPaths(prev => prev.filter(p => p.id !== lastPath.id));
     onSendDrawing({
       type: 'undo',
+      stroke_id: lastPath.id,
       color: selectedColor,
       brushSize,
       timestamp: Date.now(),
     });
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-  }, [onSendDrawing, selectedColor, brushSize]);
+  }, [localPaths, onSendDrawing, selectedColor, brushSize]);
 
   // Send chat message
   const handleSendChat = useCallback(() => {
@@ -640,27 +892,27 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  // Create word hint (blanks with some letters shown)
-  const getWordHint = (w: string | null): string => {
-    if (!w) return '???';
-    // Show first letter and blanks
-    return w.split('').map((c, i) => i === 0 ? c.toUpperCase() : ' _').join('');
-  };
-
   const dismissKeyboard = () => {
     Keyboard.dismiss();
   };
 
-  // Get team colors for the drawer
-  const getTeamInfo = () => {
-    const drawerTeam = currentDrawer?.team;
-    if (drawerTeam === 1) {
-      return { emoji: '🔵', name: 'Blue', bgColor: '#4ECDC4' };
-    }
-    return { emoji: '🔴', name: 'Red', bgColor: '#FF6B6B' };
-  };
+  // Team colors for the drawer
+  const teamInfo = getTeamInfo(currentDrawer?.team ?? drawingTeam);
 
-  const teamInfo = getTeamInfo();
+  const confirmRemove = (player: Player, ban: boolean) => {
+    Alert.alert(
+      ban ? `Ban ${player.name}?` : `Kick ${player.name}?`,
+      ban ? 'They won\'t be able to come back to this room.' : 'They can join again later.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: ban ? 'Ban' : 'Kick',
+          style: 'destructive',
+          onPress: () => (ban ? onBanPlayer : onKickPlayer)(player.id),
+        },
+      ]
+    );
+  };
 
   return (
     <SafeAreaView style={styles.container}>
@@ -669,11 +921,29 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
         visible={showWordReveal}
         word={word || ''}
         countdown={wordCountdown}
-        teamEmoji={teamInfo.emoji}
-        teamName={teamInfo.name}
-        teamBgColor={teamInfo.bgColor}
+        badgeText={isFreeForAll ? '🎨 Your turn' : `${teamInfo.emoji} Team ${teamInfo.name}`}
+        teamBgColor={teamInfo.color}
       />
 
+      <WordChoiceModal
+        visible={room.word_choice?.drawer_id === currentPlayer?.id && wordChoices.length > 0}
+        candidates={wordChoices}
+        secondsLeft={choiceSecondsLeft}
+        showDifficulty={offersMixedWords(room.settings)}
+        onChoose={handleChooseWord}
+      />
+
+      {currentPlayer?.is_host && (
+        <PlayersModal
+          visible={showPlayers}
+          players={players}
+          currentPlayerId={currentPlayer.id}
+          onKick={player => confirmRemove(player, false)}
+          onBan={player => confirmRemove(player, true)}
+          onClose={() => setShowPlayers(false)}
+        />
+      )}
+
       <TouchableWithoutFeedback onPress={dismissKeyboard} accessible={false}>
         <KeyboardAvoidingView
           behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
@@ -718,6 +988,11 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
           <View style={styles.roundIndicator}>
             <Text style={styles.roundText}>Round {room.current_round}/{room.total_rounds}</Text>
           </View>
+          {currentPlayer?.is_host && (
+            <TouchableOpacity style={styles.leaveGameButton} onPress={() => setShowPlayers(true)}>
+              <Text style={styles.leaveGameText}>👥</Text>
+            </TouchableOpacity>
+          )}
           <Animated.View style={[
             styles.timer,
             timeRemaining <= 10 && styles.timerDanger,
@@ -734,35 +1009,57 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
         
         {/* Score Bar */}
         <Animated.View style={[styles.scoreBar, { transform: [{ scale: scoreAnim }] }]}>
-          <View style={[styles.teamScoreBox, styles.team1ScoreBox]}>
-            <Text style={styles.teamScoreEmoji}>🔵</Text>
-            <Text style={styles.teamScoreValue}>{team1Players.reduce((sum, p) => sum + p.score, 0)}</Text>
-          </View>
-          <Text style={styles.vsText}>VS</Text>
-          <View style={[styles.teamScoreBox, styles.team2ScoreBox]}>
-            <Text style={styles.teamScoreValue}>{team2Players.reduce((sum, p) => sum + p.score, 0)}</Text>
-            <Text style={styles.teamScoreEmoji}>🔴</Text>
-          </View>
+          {isFreeForAll ? rankedPlayers.map(player => (
+            <View
+              key={player.id}
+              style={[styles.playerScoreBox, player.id === currentPlayer?.id && styles.myScoreBox]}
+            >
+              <Text style={styles.playerScoreName} numberOfLines={1}>
+                {player.is_drawing ? '✏️ ' : ''}{player.name}
+              </Text>
+              <Text style={styles.playerScoreValue}>{player.score}</Text>
+            </View>
+          )) : teamNumbers(room.settings.team_count).map((team, index) => (
+            <React.Fragment key={team}>
+              {/* No room for VS badges between 3-4 teams */}
+              {index > 0 && room.settings.team_count === 2 && <Text style={styles.vsText}>VS</Text>}
+              <View style={[styles.teamScoreBox, { backgroundColor: `${getTeamInfo(team).color}4D` }]}>
+                <Text style={styles.teamScoreEmoji}>{getTeamInfo(team).emoji}</Text>
+                <Text style={styles.teamScoreValue}>{teamScores[team - 1]}</Text>
+              </View>
+            </React.Fragment>
+          ))}
         </Animated.View>
 
         {/* Word/Status Bar - word only shown to drawer (word is null for everyone else) */}
         <View style={styles.statusBar}>
-          {isDrawing ? (
+          {room.word_choice ? (
+            <View style={styles.statusBarContent}>
+              <Text style={styles.drawerInfo}>
+                🤔 {players.find(p => p.id === room.word_choice?.drawer_id)?.name || 'The drawer'} is choosing a word...
+              </Text>
+            </View>
+          ) : isDrawing ? (
             <View style={styles.wordContainer}>
               <Text style={styles.wordLabel}>Draw:</Text>
               <Text style={styles.word}>{word ? word.toUpperCase() : '???'}</Text>
             </View>
           ) : isGuessingTeam ? (
             <View style={styles.statusBarContent}>
-              <Text style={styles.drawerInfo}>✏️ {currentDrawer?.name || 'Teammate'} is drawing</Text>
-              <Text style={styles.guessPrompt}>Type your guesses below!</Text>
+              <Text style={styles.drawerInfo}>✏️ {currentDrawer?.name || (isFreeForAll ? 'Someone' : 'Teammate')} is drawing</Text>
+              {room.word_hint ? (
+                <Text style={styles.wordHint}>{formatHint(room.word_hint)}</Text>
+              ) : (
+                <Text style={styles.guessPrompt}>Type your guesses below!</Text>
+              )}
             </View>
           ) : (
             <View style={styles.statusBarContent}>
               <Text style={styles.watchingInfo}>
-                {drawingTeam === 1 ? '🔵' : '🔴'} Team {drawingTeam === 1 ? 'Blue' : 'Red'}'s turn
+                {getTeamInfo(drawingTeam).emoji} Team {getTeamInfo(drawingTeam).name}'s turn
               </Text>
               <Text style={styles.drawerInfo}>{currentDrawer?.name || 'Someone'} is drawing</Text>
+              {room.word_hint && <Text style={styles.wordHint}>{formatHint(room.word_hint)}</Text>}
             </View>
           )}
         </View>
@@ -777,7 +1074,8 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
             onResponderMove={handleTouchMove}
             onResponderRelease={handleTouchEnd}
           >
-            <Svg width={CANVAS_SIZE} height={CANVAS_SIZE}>
+            {/* viewBox scales logical coordinates and brush widths to this device */}
+            <Svg width={CANVAS_SIZE} height={CANVAS_SIZE} viewBox={CANVAS_VIEWBOX}>
               {/* Remote drawings from other players */}
               {drawings.map(path => (
                 <Path
@@ -845,17 +1143,19 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
               </TouchableOpacity>
             </View>
 
-            {/* Row 2: Got It + Skip (centered) */}
+            {/* Row 2: Got It + Skip (centered). Free-for-all guesses only count through chat. */}
             <View style={styles.actionRow}>
-              <TouchableOpacity 
-                style={styles.correctButton} 
-                onPress={() => {
-                  onCorrectGuess();
-                  Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-                }}
-              >
-                <Text style={styles.correctButtonText}>✅ Got It!</Text>
-              </TouchableOpacity>
+              {!isFreeForAll && (
+                <TouchableOpacity 
+                  style={styles.correctButton} 
+                  onPress={() => {
+                    onCorrectGuess();
+                    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+                  }}
+                >
+                  <Text style={styles.correctButtonText}>✅ Got It!</Text>
+                </TouchableOpacity>
+              )}
               <TouchableOpacity 
                 style={styles.skipButton} 
                 onPress={() => {
@@ -959,7 +1259,7 @@ export const MultiplayerGameScreen: React.FC<MultiplayerGameScreenProps> = ({
             <View style={styles.watchingHeader}>
               <Text style={styles.watchingText}>👀 Watching</Text>
               <Text style={styles.watchingSubtext}>
-                {drawingTeam === 1 ? '🔵 Team Blue' : '🔴 Team Red'}'s turn
+                {getTeamInfo(drawingTeam).emoji} Team {getTeamInfo(drawingTeam).name}'s turn
               </Text>
             </View>
             
@@ -1066,6 +1366,7 @@ const styles = StyleSheet.create({
   },
   scoreBar: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     justifyContent: 'center',
     alignItems: 'center',
     paddingHorizontal: 16,
@@ -1080,12 +1381,6 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     borderRadius: 16,
   },
-  team1ScoreBox: {
-    backgroundColor: 'rgba(78, 205, 196, 0.3)',
-  },
-  team2ScoreBox: {
-    backgroundColor: 'rgba(255, 107, 107, 0.3)',
-  },
   teamScoreEmoji: {
     fontSize: 20,
   },
@@ -1094,6 +1389,30 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#fff',
   },
+  playerScoreBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    maxWidth: 140,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+  },
+  myScoreBox: {
+    backgroundColor: 'rgba(255,230,109,0.35)',
+  },
+  playerScoreName: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  playerScoreValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
   vsText: {
     fontSize: 16,
     fontWeight: 'bold',
@@ -1145,6 +1464,7 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#FFE66D',
     letterSpacing: 4,
+    marginTop: 4,
   },
   statusText: {
     fontSize: 16,
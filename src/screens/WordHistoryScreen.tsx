@@ -0,0 +1,256 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { WordPack } from '../lib/wordPacks';
+import { BUILT_IN_PACKS } from '../lib/words';
+import {
+  DEFAULT_HISTORY_LIMITS,
+  DEFAULT_HISTORY_SETTINGS,
+  HISTORY_LIMITS,
+  HistoryMode,
+  PlayedWord,
+  WordHistorySettings,
+  clearWordHistory,
+  loadHistorySettings,
+  loadWordHistory,
+  packCoverage,
+  saveHistorySettings,
+} from '../lib/wordHistory';
+
+interface WordHistoryScreenProps {
+  historyKey: string; // Whose history: the host's player ID, or LOCAL_HISTORY_KEY
+  packs: WordPack[];
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<HistoryMode, string> = {
+  words: 'Last words',
+  days: 'Last days',
+};
+
+// How much of each list has been played lately, and how much to remember
+export const WordHistoryScreen: React.FC<WordHistoryScreenProps> = ({ historyKey, packs, onClose }) => {
+  const [history, setHistory] = useState<PlayedWord[]>([]);
+  const [settings, setSettings] = useState<WordHistorySettings>(DEFAULT_HISTORY_SETTINGS);
+
+  const reload = () => {
+    loadWordHistory(historyKey).then(setHistory);
+  };
+
+  useEffect(() => {
+    loadHistorySettings().then(setSettings);
+    reload();
+  }, [historyKey]);
+
+  const changeSettings = (next: WordHistorySettings) => {
+    setSettings(next);
+    saveHistorySettings(next)
+      .then(reload)
+      .catch(e => console.error('Failed to save word history settings:', e));
+  };
+
+  const handleClear = () => {
+    Alert.alert('Forget Played Words', 'Every word can come up again as if it were new.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Forget',
+        style: 'destructive',
+        onPress: () => {
+          clearWordHistory(historyKey)
+            .then(() => setHistory([]))
+            .catch(e => console.error('Failed to clear word history:', e));
+        },
+      },
+    ]);
+  };
+
+  const lists = [
+    ...BUILT_IN_PACKS.map(pack => ({ id: pack.id, name: `${pack.name} (built-in)`, words: pack.words.map(w => w.word) })),
+    ...packs,
+  ];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={onClose}>
+            <Text style={styles.backText}>← Back</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>📊 Played Words</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.list}>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>🧠 Remember</Text>
+            <View style={styles.pills}>
+              {(Object.keys(MODE_LABELS) as HistoryMode[]).map(mode => (
+                <TouchableOpacity
+                  key={mode}
+                  style={[styles.pill, settings.mode === mode && styles.pillActive]}
+                  onPress={() => changeSettings({ mode, limit: DEFAULT_HISTORY_LIMITS[mode] })}
+                >
+                  <Text style={[styles.pillText, settings.mode === mode && styles.pillTextActive]}>{MODE_LABELS[mode]}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.pills}>
+              {HISTORY_LIMITS[settings.mode].map(limit => (
+                <TouchableOpacity
+                  key={limit}
+                  style={[styles.pill, settings.limit === limit && styles.pillActive]}
+                  onPress={() => changeSettings({ ...settings, limit })}
+                >
+                  <Text style={[styles.pillText, settings.limit === limit && styles.pillTextActive]}>
+                    {limit} {settings.mode === 'words' ? 'words' : limit === 1 ? 'day' : 'days'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.note}>
+              Words played in that time come up only after the rest. {history.length} remembered now.
+            </Text>
+          </View>
+
+          {lists.map(list => {
+            const { played, total } = packCoverage(list.words, history);
+            const share = total > 0 ? played / total : 0;
+            return (
+              <View key={list.id} style={styles.card}>
+                <View style={styles.packRow}>
+                  <Text style={styles.packName}>{list.name}</Text>
+                  <Text style={styles.packCount}>{played} / {total}</Text>
+                </View>
+                <View style={styles.bar}>
+                  <View style={[styles.barFill, { width: `${Math.round(share * 100)}%` }]} />
+                </View>
+              </View>
+            );
+          })}
+
+          <TouchableOpacity style={styles.clearButton} onPress={handleClear}>
+            <Text style={styles.clearText}>🗑️ Forget played words</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#6B4EE6',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+  },
+  backButton: {
+    padding: 8,
+  },
+  backText: {
+    fontSize: 18,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 70,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  list: {
+    gap: 10,
+    paddingBottom: 20,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    padding: 14,
+    gap: 10,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  pills: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  pill: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: '#f0f0f0',
+  },
+  pillActive: {
+    backgroundColor: '#6B4EE6',
+  },
+  pillText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#555',
+  },
+  pillTextActive: {
+    color: '#fff',
+  },
+  note: {
+    fontSize: 13,
+    color: '#888',
+  },
+  packRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  packName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  packCount: {
+    fontSize: 14,
+    color: '#888',
+  },
+  bar: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#f0f0f0',
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    backgroundColor: '#4ECDC4',
+  },
+  clearButton: {
+    backgroundColor: '#FF6B6B',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  clearText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+});
@@ -0,0 +1,366 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  Share,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import {
+  WordPack,
+  WordPackFormat,
+  WORD_PACK_FORMATS,
+  checkWordPack,
+  cleanWords,
+  createWordPack,
+  deleteWordPack,
+  detectFormat,
+  exportWordPack,
+  parseWordLines,
+  parseWordPack,
+  saveWordPack,
+} from '../lib/wordPacks';
+import { summarizeProblems, validateWords } from '../lib/wordValidation';
+import { WordHistoryScreen } from './WordHistoryScreen';
+
+interface WordPacksScreenProps {
+  packs: WordPack[];
+  historyKey: string; // Whose played words to show (see lib/wordHistory.ts)
+  onPacksChanged: (packs: WordPack[]) => void;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<WordPackFormat, string> = {
+  json: 'JSON',
+  csv: 'CSV',
+  text: 'Plain text',
+};
+
+type PacksView = { mode: 'list' } | { mode: 'edit'; pack: WordPack | null } | { mode: 'import' } | { mode: 'history' };
+
+// Make, edit, import and export custom word lists
+export const WordPacksScreen: React.FC<WordPacksScreenProps> = ({
+  packs,
+  historyKey,
+  onPacksChanged,
+  onClose,
+}) => {
+  const [view, setView] = useState<PacksView>({ mode: 'list' });
+  const [name, setName] = useState('');
+  const [wordsText, setWordsText] = useState('');
+
+  const openEditor = (pack: WordPack | null) => {
+    setName(pack?.name ?? '');
+    setWordsText(pack?.words.join('\n') ?? '');
+    setView({ mode: 'edit', pack });
+  };
+
+  const openImport = () => {
+    setName('');
+    setWordsText('');
+    setView({ mode: 'import' });
+  };
+
+  const store = async (pack: WordPack) => {
+    try {
+      onPacksChanged(await saveWordPack(pack));
+      return true;
+    } catch (e) {
+      console.error('Failed to save word pack:', e);
+      Alert.alert('Error', 'Could not save the list. Please try again.');
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    if (view.mode !== 'edit') return;
+    const words = parseWordLines(wordsText);
+    const problem = checkWordPack(name, words);
+    if (problem) {
+      Alert.alert('Not Quite', problem);
+      return;
+    }
+    const pack = view.pack ? { ...view.pack, name, words } : createWordPack(name, words);
+    // What saving tidied up, and anything worth a second look
+    const report = summarizeProblems(validateWords(words));
+    if (await store(pack)) {
+      if (report) Alert.alert('Saved', `"${name.trim()}" is saved.\n\n${report}`);
+      setView({ mode: 'list' });
+    }
+  };
+
+  const handleImport = async () => {
+    let parsed: ReturnType<typeof parseWordPack>;
+    try {
+      parsed = parseWordPack(wordsText);
+    } catch (e) {
+      Alert.alert('Could Not Import', 'That doesn\'t look like a word list. Paste JSON, CSV, or one word per line.');
+      return;
+    }
+    const packName = name.trim() || parsed.name || 'Imported list';
+    const problem = checkWordPack(packName, parsed.words);
+    if (problem) {
+      Alert.alert('Could Not Import', problem);
+      return;
+    }
+    // What saving tidied up, and anything worth a second look
+    const report = summarizeProblems(validateWords(parsed.words));
+    if (await store(createWordPack(packName, parsed.words))) {
+      const count = cleanWords(parsed.words).length;
+      Alert.alert('Imported', `"${packName}" has ${count} words.${report ? `\n\n${report}` : ''}`);
+      setView({ mode: 'list' });
+    }
+  };
+
+  const handleExport = (pack: WordPack) => {
+    const share = (format: WordPackFormat) => {
+      Share.share({ title: pack.name, message: exportWordPack(pack, format) })
+        .catch(e => console.error('Failed to export word pack:', e));
+    };
+    Alert.alert('Export List', `Share "${pack.name}" as:`, [
+      ...WORD_PACK_FORMATS.map(format => ({ text: FORMAT_LABELS[format], onPress: () => share(format) })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const handleDelete = (pack: WordPack) => {
+    Alert.alert('Delete List', `Delete "${pack.name}"? This can't be undone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          deleteWordPack(pack.id)
+            .then(onPacksChanged)
+            .catch(e => console.error('Failed to delete word pack:', e));
+        },
+      },
+    ]);
+  };
+
+  const wordCount = parseWordLines(wordsText).filter(w => w.trim()).length;
+
+  if (view.mode === 'history') {
+    return <WordHistoryScreen historyKey={historyKey} packs={packs} onClose={() => setView({ mode: 'list' })} />;
+  }
+
+  if (view.mode !== 'list') {
+    const isImport = view.mode === 'import';
+    return (
+      <SafeAreaView style={styles.container}>
+        <KeyboardAvoidingView style={styles.content} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.backButton} onPress={() => setView({ mode: 'list' })}>
+              <Text style={styles.backText}>← Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.title}>{isImport ? '📥 Import' : view.pack ? '✏️ Edit List' : '➕ New List'}</Text>
+            <View style={styles.headerSpacer} />
+          </View>
+
+          <Text style={styles.label}>Name{isImport && ' (optional)'}</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder="e.g. Family Favourites"
+            placeholderTextColor="rgba(255,255,255,0.5)"
+          />
+
+          <Text style={styles.label}>
+            {isImport
+              ? wordsText.trim() ? `Paste your list (${FORMAT_LABELS[detectFormat(wordsText)]})` : 'Paste your list'
+              : `Words, one per line (${wordCount})`}
+          </Text>
+          <TextInput
+            style={[styles.input, styles.wordsInput]}
+            value={wordsText}
+            onChangeText={setWordsText}
+            placeholder={isImport ? 'JSON, CSV, or one word per line' : 'pizza\nrocket\nsnowman'}
+            placeholderTextColor="rgba(255,255,255,0.5)"
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            textAlignVertical="top"
+          />
+
+          <TouchableOpacity style={styles.primaryButton} onPress={isImport ? handleImport : handleSave}>
+            <Text style={styles.primaryButtonText}>{isImport ? 'Import List' : 'Save List'}</Text>
+          </TouchableOpacity>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={onClose}>
+            <Text style={styles.backText}>← Done</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>📚 Word Lists</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => openEditor(null)}>
+            <Text style={styles.actionText}>➕ New list</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={openImport}>
+            <Text style={styles.actionText}>📥 Import</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => setView({ mode: 'history' })}>
+            <Text style={styles.actionText}>📊 Played</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.list}>
+          {packs.length === 0 && (
+            <Text style={styles.emptyText}>No lists yet. Make one, or import one a friend shared with you.</Text>
+          )}
+          {packs.map(pack => (
+            <View key={pack.id} style={styles.packCard}>
+              <View style={styles.packInfo}>
+                <Text style={styles.packName}>{pack.name}</Text>
+                <Text style={styles.packCount}>{pack.words.length} words</Text>
+              </View>
+              <TouchableOpacity style={styles.packButton} onPress={() => openEditor(pack)}>
+                <Text style={styles.packButtonText}>✏️</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.packButton} onPress={() => handleExport(pack)}>
+                <Text style={styles.packButtonText}>📤</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.packButton} onPress={() => handleDelete(pack)}>
+                <Text style={styles.packButtonText}>🗑️</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </ScrollView>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#6B4EE6',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+  },
+  backButton: {
+    padding: 8,
+  },
+  backText: {
+    fontSize: 18,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 70,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  label: {
+    fontSize: 16,
+    color: '#fff',
+    marginBottom: 8,
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#fff',
+    borderWidth: 2,
+    borderColor: 'rgba(255,255,255,0.3)',
+    marginBottom: 16,
+  },
+  wordsInput: {
+    flex: 1,
+    minHeight: 160,
+  },
+  primaryButton: {
+    backgroundColor: '#FF6B6B',
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  actionButton: {
+    flex: 1,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    padding: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  list: {
+    gap: 10,
+    paddingBottom: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: 'rgba(255,255,255,0.8)',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  packCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    padding: 14,
+    gap: 6,
+  },
+  packInfo: {
+    flex: 1,
+  },
+  packName: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  packCount: {
+    fontSize: 13,
+    color: '#888',
+    marginTop: 2,
+  },
+  packButton: {
+    padding: 8,
+  },
+  packButtonText: {
+    fontSize: 20,
+  },
+});
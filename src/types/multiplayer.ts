@@ -4,7 +4,7 @@ export interface Player {
   id: string;
   name: string;
   room_id: string | null;
-  team: 1 | 2 | null;
+  team: TeamNumber | null;
   is_drawing: boolean;
   score: number;
   is_ready: boolean;
@@ -21,30 +21,116 @@ export interface Room {
   current_round: number;
   total_rounds: number;
   current_word: string | null;
-  drawing_team: 1 | 2;
-  round_start_time: string | null;
+  drawing_team: TeamNumber;
+  round_start_time: string | null; // Set server-side
+  round_deadline: number | null; // When this round's time runs out, host clock (ms)
+  word_hash: string | null; // Salted hash of current_word; the plaintext only goes to the drawer
+  word_hint: string | null; // Guessers' view of the word: blanks plus letters revealed so far (lib/wordHints.ts)
+  word_choice: WordChoice | null; // Set while the drawer picks the next round's word
+  word_difficulty: Difficulty | null; // The chosen word's tier, when the choice mixed difficulties
+  banned_ids: string[]; // Kept out for the room's lifetime
+  locked: boolean; // No new players (those with a seat can still rejoin)
   created_at: string;
 }
 
 export interface RoomSettings {
   timer_seconds: number;
-  difficulty: 'easy' | 'medium' | 'hard';
+  difficulty: Difficulty;
   max_players: number;
   allow_tag_team: boolean;
+  team_count: 2 | 3 | 4;
+  mode: GameMode;
+  scoring: ScoringPreset; // See SCORING_PRESETS in lib/scoring.ts
+  hint_count: number; // Letters revealed to guessers during a round
+  word_choices: number; // Words the drawer picks from (1: no choice)
+  mixed_difficulty: boolean; // Offer one word from each tier; harder ones pay more
+  word_pack: RoomWordPack | null; // Host's custom list, used instead of the built-in words
+  categories: WordCategory[]; // Built-in words on these topics only (none: any topic)
+  kid_safe: boolean; // Leave out built-in words not meant for kids
 }
 
-export interface DrawingEvent {
+// A custom word list as the room gets it (lib/wordPacks.ts)
+export interface RoomWordPack {
+  id: string;
+  name: string;
+  words: string[];
+}
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+// Topics the built-in words are tagged with (labels in lib/words.ts)
+export type WordCategory =
+  | 'animals' | 'food' | 'objects' | 'nature' | 'people' | 'places' | 'actions' | 'vehicles'
+  | 'sports' | 'clothing' | 'holidays' | 'arts' | 'fantasy' | 'science' | 'misc';
+
+// One word in a themed pack
+export interface PackWord {
+  word: string;
+  difficulty: Difficulty;
+  categories: WordCategory[];
+  aliases?: string[]; // Other answers accepted for it
+  kid_safe?: boolean; // Unmarked words are left out of kid-safe games
+}
+
+// A pack of tagged words, such as the built-in one (lib/words.ts)
+export interface ThemedWordPack {
+  id: string;
+  name: string;
+  locale: string; // e.g. 'en'
+  words: PackWord[];
+}
+
+// The drawer is choosing a word; the round clock starts once they have
+export interface WordChoice {
+  round: number;
+  drawer_id: string;
+  deadline: number; // Auto-pick after this, host clock (ms)
+}
+
+// A word offered to the drawer (sent to their inbox only)
+export interface WordCandidate {
+  word: string;
+  difficulty: Difficulty;
+}
+
+export type ScoringPreset = 'classic' | 'speed' | 'simple';
+
+// teams: Pictionary teams take turns. free_for_all: every player draws in
+// turn, everyone else guesses, scores are individual.
+export type GameMode = 'teams' | 'free_for_all';
+
+// Teams are numbered from 1 (see TEAM_INFO in lib/teams.ts)
+export type TeamNumber = 1 | 2 | 3 | 4;
+
+// What the canvas reports, one per touch; useMultiplayer batches it for the wire
+export interface DrawingInput {
   type: 'start' | 'move' | 'end' | 'clear' | 'undo';
+  stroke_id?: string; // start and undo
   x?: number;
   y?: number;
   color: string;
   brushSize: number;
   timestamp: number;
-  player_id: string;
 }
 
+// On the wire. Coordinates and brushSize are logical units (lib/canvas.ts),
+// stroke points travel in delta-encoded batches (lib/strokeStream.ts).
+export type DrawingEvent = {
+  v: number; // DRAWING_PROTOCOL_VERSION
+  player_id: string;
+  timestamp: number;
+  seq?: number; // Per-drawer, to spot dropped events
+} & (
+  | { type: 'start'; stroke_id: string; x: number; y: number; color: string; brushSize: number }
+  | { type: 'points'; stroke_id: string; batch: number; d: number[] }
+  | { type: 'end'; stroke_id: string; batches: number }
+  | { type: 'clear' }
+  | { type: 'undo'; stroke_id: string }
+);
+
 export interface DrawingPath {
-  id: string;
+  v: number; // DRAWING_PROTOCOL_VERSION
+  id: string; // Stroke ID
   points: Array<{ x: number; y: number }>;
   color: string;
   brushSize: number;
@@ -69,16 +155,39 @@ export interface GameState {
   messages: ChatMessage[];
   isConnected: boolean;
   error: string | null;
+  removedReason: RemovedReason | null; // Set when the host put us out of the room
+  roundResults: RoundResult[]; // This game's finished rounds, from the host
+  wordChoices: WordCandidate[]; // Drawer only: words offered for the next round
+}
+
+export type RemovedReason = 'kicked' | 'banned';
+
+// How an award's points add up
+export interface PointsBreakdown {
+  base: number;
+  time_bonus: number; // Guessers: more the sooner they got it
+  rank_bonus: number; // Free-for-all: 1st, 2nd and 3rd correct guessers
+  difficulty_bonus: number; // Harder word chosen from a mixed-difficulty choice
+}
+
+// Points one player got for one correct guess (the drawer gets one per guesser)
+export interface ScoreAward {
+  player_id: string;
+  role: 'guesser' | 'drawer';
+  points: number;
+  time_taken: number | null; // Seconds into the round
+  breakdown: PointsBreakdown;
 }
 
 export interface RoundResult {
   round: number;
   word: string;
-  drawing_team: 1 | 2;
-  guessing_team: 1 | 2;
-  guessed_by: string | null;
+  drawing_team: TeamNumber;
+  guessing_team: TeamNumber;
+  guessed_by: string | null; // First correct guesser
   time_taken: number | null;
   points_awarded: number;
+  awards: ScoreAward[];
 }
 
 // Realtime payload types
@@ -88,15 +197,30 @@ export interface RealtimePresence {
   online_at: string;
 }
 
+// Why a join request was turned away
+export type JoinRejectReason = 'wrong_code' | 'full' | 'in_progress' | 'banned' | 'locked' | 'no_response' | 'failed';
+
+export type JoinAnswer = { accepted: true } | { accepted: false; reason: JoinRejectReason };
+
 export type RoomEvent = 
   | { type: 'player_joined'; player: Player }
   | { type: 'player_left'; player_id: string }
+  | { type: 'player_kicked'; player_id: string }
+  | { type: 'player_banned'; player_id: string }
+  | { type: 'room_locked'; locked: boolean }
   | { type: 'player_ready'; player_id: string; is_ready: boolean }
   | { type: 'game_started'; word?: string }
-  | { type: 'round_started'; round: number; drawing_team: 1 | 2; word?: string }
+  | { type: 'settings_changed'; settings: RoomSettings; total_rounds: number }
+  | { type: 'teams_assigned'; teams: Record<string, number> } // Player ID -> team, everyone at once
+  | { type: 'word_choice_started'; round: number; drawer_id: string; deadline: number }
+  | { type: 'round_started'; round: number; drawing_team: TeamNumber; drawer_id: string; word_hash?: string; total_rounds?: number; deadline?: number; round_start_time?: string | null; word_pattern?: string; word_difficulty?: Difficulty | null }
+  | { type: 'hint_revealed'; round: number; index: number; letter: string }
+  | { type: 'word_revealed'; round: number; word: string; salt: string }
   | { type: 'tag_team'; new_drawer_id: string }
-  | { type: 'correct_guess'; player_id: string; points: number }
-  | { type: 'round_ended'; result: RoundResult }
-  | { type: 'game_ended'; winner_team: 1 | 2; final_scores: { team1: number; team2: number } }
+  | { type: 'host_changed'; host_id: string; previous_host_id: string; round_deadline: number | null }
+  | { type: 'word_skipped'; round: number }
+  // Round and game ends only count from the host (host_id, and seq_host on the wire)
+  | { type: 'round_ended'; round?: number; host_id: string; result?: RoundResult }
+  | { type: 'game_ended'; host_id: string; winner_team: TeamNumber | null; final_scores: number[] } // Scores by team, team 1 first
   | { type: 'drawing'; event: DrawingEvent }
   | { type: 'chat'; message: ChatMessage };
@@ -0,0 +1,44 @@
+import { PGlite } from '@electric-sql/pglite';
+import { judgeGuess, normalizeGuess } from '../../src/lib/guessMatch';
+import { createDb, value } from '../testDb';
+
+// judgeGuess (client) and judge_guess() (server) have to agree
+const CASES: Array<[guess: string, word: string, aliases: string[], verdict: string]> = [
+  ['horse', 'horse', [], 'correct'],
+  [' Horses! ', 'horse', [], 'correct'],
+  ['boxes', 'box', [], 'correct'],
+  ['Fire-truck', 'fire truck', [], 'correct'],
+  ['pony', 'horse', ['pony'], 'correct'],
+  ['creme brulee', 'crème brûlée', [], 'correct'],
+  ['Crème Brûlée', 'creme brulee', [], 'correct'],
+  ['ÉCLAIR', 'éclair', [], 'correct'],
+  ['Straße', 'straße', [], 'correct'],
+  ['café', 'café', [], 'correct'],
+  ['bu', 'bus', [], 'wrong'],
+  ['cactu', 'cactus', [], 'close'],
+  ['hors', 'horse', [], 'close'],
+  ['grap', 'grapes', [], 'wrong'],
+  ['hose', 'horse', [], 'close'],
+  ['cat', 'car', [], 'wrong'],
+  ['elephnt', 'elephant', [], 'close'],
+  ['!!!', 'horse', [], 'wrong'],
+];
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createDb();
+}, 60_000);
+
+afterAll(() => db.close());
+
+describe('guess matching', () => {
+  it.each(CASES)('%j for %j (aliases %j) is %s on both sides', async (guess, word, aliases, verdict) => {
+    expect(judgeGuess(guess, word, aliases)).toBe(verdict);
+    expect(await value(db, 'SELECT judge_guess($1, $2, $3)', [guess, word, aliases])).toBe(verdict);
+  });
+
+  it.each(['Fire-truck ', 'Crème Brûlée', 'ÉCLAIR', 'Ωmega 42', 'Straße'])('normalizes %j the same way', async input => {
+    expect(await value(db, 'SELECT normalize_guess($1)', [input])).toBe(normalizeGuess(input));
+  });
+});
@@ -0,0 +1,73 @@
+import { PGlite } from '@electric-sql/pglite';
+import { SCHEMA, createDb, value } from '../testDb';
+
+// Tables as the first release of the schema made them
+const FIRST_RELEASE = `
+  CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+  CREATE TABLE rooms (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code VARCHAR(6) UNIQUE NOT NULL,
+    host_id VARCHAR(100) NOT NULL,
+    status VARCHAR(20) DEFAULT 'lobby' CHECK (status IN ('lobby', 'playing', 'finished')),
+    settings JSONB DEFAULT '{"timer_seconds": 60, "difficulty": "medium", "max_players": 8, "allow_tag_team": true}'::jsonb,
+    current_round INT DEFAULT 0,
+    total_rounds INT DEFAULT 10,
+    current_word VARCHAR(100),
+    drawing_team INT DEFAULT 1 CHECK (drawing_team IN (1, 2)),
+    round_start_time TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+  );
+  CREATE TABLE players (
+    id VARCHAR(100) PRIMARY KEY,
+    room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+    name VARCHAR(50) NOT NULL,
+    team INT CHECK (team IN (1, 2)),
+    is_drawing BOOLEAN DEFAULT FALSE,
+    score INT DEFAULT 0,
+    is_ready BOOLEAN DEFAULT FALSE,
+    is_host BOOLEAN DEFAULT FALSE,
+    connected_at TIMESTAMPTZ DEFAULT NOW(),
+    last_seen TIMESTAMPTZ DEFAULT NOW()
+  );
+  CREATE TABLE chat_messages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
+    player_id VARCHAR(100) NOT NULL,
+    player_name VARCHAR(50) NOT NULL,
+    text TEXT NOT NULL,
+    is_correct_guess BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+  );
+  INSERT INTO rooms (code, host_id) VALUES ('OLD123', 'host');
+`;
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await createDb(FIRST_RELEASE);
+}, 60_000);
+
+afterAll(() => db.close());
+
+describe('schema upgrade', () => {
+  it('runs again over itself', async () => {
+    await expect(db.exec(SCHEMA)).resolves.toBeDefined();
+  });
+
+  it('adds the moderation columns to existing rooms', async () => {
+    const { rows } = await db.query(`SELECT banned_ids, locked FROM rooms WHERE code = 'OLD123'`);
+    expect(rows[0]).toEqual({ banned_ids: [], locked: false });
+  });
+
+  it('adds word aliases to existing rooms', async () => {
+    expect(await value(db, `SELECT current_aliases FROM rooms WHERE code = 'OLD123'`)).toEqual([]);
+  });
+
+  it('lets existing rooms have up to 4 teams', async () => {
+    await db.exec(`UPDATE rooms SET drawing_team = 4`);
+    await db.exec(`INSERT INTO players (id, room_id, name, team) SELECT 'p4', id, 'Four', 4 FROM rooms`);
+    expect(await value(db, `SELECT team FROM players WHERE id = 'p4'`)).toBe(4);
+    await expect(db.exec(`UPDATE rooms SET drawing_team = 5`)).rejects.toThrow(/rooms_drawing_team_check/);
+  });
+});
@@ -0,0 +1,172 @@
+import { PGlite } from '@electric-sql/pglite';
+import { asPlayer, createDb, resetDb, value } from '../testDb';
+
+const HOST = '00000000-0000-4000-8000-000000000001';
+const TEAMMATE = '00000000-0000-4000-8000-000000000002';
+const RIVAL = '00000000-0000-4000-8000-000000000003';
+
+let db: PGlite;
+let roomId: string;
+
+beforeAll(async () => {
+  db = await createDb();
+}, 60_000);
+
+afterAll(() => db.close());
+
+// A teams room: host and teammate on team 1, rival on team 2, host drawing "horse"
+beforeEach(async () => {
+  await resetDb(db);
+  roomId = await asPlayer(db, HOST, tx =>
+    value<string>(tx, `INSERT INTO rooms (code, host_id) VALUES ('ABC123', $1) RETURNING id`, [HOST])
+  );
+  for (const [id, name] of [[HOST, 'Host'], [TEAMMATE, 'Mate'], [RIVAL, 'Rival']]) {
+    await asPlayer(db, id, tx => tx.query('SELECT save_player($1, $2)', [roomId, name]));
+  }
+  await asPlayer(db, HOST, async tx => {
+    await tx.query('SELECT save_players($1, $2)', [
+      roomId,
+      JSON.stringify([
+        { id: HOST, team: 1, score: 0, is_drawing: false },
+        { id: TEAMMATE, team: 1, score: 0, is_drawing: false },
+        { id: RIVAL, team: 2, score: 0, is_drawing: false },
+      ]),
+    ]);
+    await tx.query(`SELECT set_round_word($1, 1, 1, $2, 'horse', '{pony}')`, [roomId, HOST]);
+  });
+});
+
+const guess = (playerId: string, text: string) =>
+  asPlayer(db, playerId, tx => value<string>(tx, 'SELECT submit_guess($1, $2)', [roomId, text]));
+
+describe('round word', () => {
+  it('is set and cleared by the host only', async () => {
+    await expect(
+      asPlayer(db, RIVAL, tx => tx.query(`SELECT set_round_word($1, 2, 2, $2, 'cat')`, [roomId, RIVAL]))
+    ).rejects.toThrow(/not its host/);
+
+    await asPlayer(db, RIVAL, tx => tx.query('SELECT clear_round_word($1)', [roomId]));
+    expect(await value(db, 'SELECT current_word FROM rooms')).toBe('horse');
+
+    await asPlayer(db, HOST, tx => tx.query('SELECT clear_round_word($1)', [roomId]));
+    expect(await value(db, 'SELECT current_word FROM rooms')).toBeNull();
+  });
+
+  it("can't be read by players", async () => {
+    await expect(asPlayer(db, RIVAL, tx => tx.query('SELECT current_word FROM rooms'))).rejects.toThrow(/permission denied/);
+  });
+});
+
+describe('players', () => {
+  it("can't change their own team, score or pen", async () => {
+    await asPlayer(db, RIVAL, tx => tx.query(`UPDATE players SET team = 1, score = 999, is_drawing = TRUE WHERE id = $1`, [RIVAL]));
+    expect(await value(db, 'SELECT score FROM players WHERE id = $1', [RIVAL])).toBe(0);
+
+    await expect(
+      asPlayer(db, RIVAL, tx => tx.query('SELECT save_players($1, $2)', [roomId, JSON.stringify([{ id: RIVAL, team: 1, score: 999 }])]))
+    ).rejects.toThrow(/not its host/);
+  });
+
+  it('keep their team and score when they rejoin', async () => {
+    await asPlayer(db, HOST, tx =>
+      tx.query('SELECT save_players($1, $2)', [roomId, JSON.stringify([{ id: RIVAL, team: 2, score: 40 }])])
+    );
+    await asPlayer(db, RIVAL, tx => tx.query('SELECT save_player($1, $2, TRUE)', [roomId, 'Rival']));
+
+    const { rows } = await db.query('SELECT team, score, is_ready FROM players WHERE id = $1', [RIVAL]);
+    expect(rows[0]).toEqual({ team: 2, score: 40, is_ready: true });
+  });
+
+  it("can't post to the chat directly", async () => {
+    await expect(
+      asPlayer(db, TEAMMATE, tx =>
+        tx.query(`INSERT INTO chat_messages (room_id, player_id, player_name, text, manual) VALUES ($1, $2, 'Mate', 'x', TRUE)`, [roomId, TEAMMATE])
+      )
+    ).rejects.toThrow(/permission denied|row-level security/);
+  });
+});
+
+describe('guesses', () => {
+  it('are checked against the word and its aliases', async () => {
+    expect(await guess(TEAMMATE, 'hose')).toBe('close');
+    expect(await guess(TEAMMATE, 'Pony')).toBe('correct');
+    expect(await value(db, 'SELECT count(*)::int FROM chat_messages WHERE is_correct_guess')).toBe(1);
+  });
+
+  it("reach the room's players, without the guess's text", async () => {
+    await guess(TEAMMATE, 'Horses');
+    const { rows } = await asPlayer(db, RIVAL, tx => tx.query('SELECT player_id, text FROM chat_messages WHERE is_correct_guess'));
+    expect(rows).toEqual([{ player_id: TEAMMATE, text: '' }]);
+
+    const OUTSIDER = '00000000-0000-4000-8000-000000000009';
+    expect(await asPlayer(db, OUTSIDER, tx => value(tx, 'SELECT count(*)::int FROM chat_messages'))).toBe(0);
+  });
+
+  it('are ranked in the order the server took them', async () => {
+    await db.exec(`UPDATE rooms SET settings = settings || '{"mode": "free_for_all"}'`);
+    await guess(RIVAL, 'horse');
+    await guess(TEAMMATE, 'horse');
+
+    const { rows } = await db.query('SELECT player_id, guess_rank FROM chat_messages WHERE is_correct_guess ORDER BY guess_rank');
+    expect(rows).toEqual([{ player_id: RIVAL, guess_rank: 1 }, { player_id: TEAMMATE, guess_rank: 2 }]);
+  });
+
+  it('only count from the drawing team', async () => {
+    expect(await guess(RIVAL, 'horse')).toBe('wrong');
+  });
+
+  it('count once a round in teams mode', async () => {
+    expect(await guess(TEAMMATE, 'horse')).toBe('correct');
+    expect(await guess(TEAMMATE, 'horse')).toBe('wrong');
+  });
+});
+
+describe('manual confirm', () => {
+  it('is only for the drawer, once a round', async () => {
+    const confirm = (playerId: string) =>
+      asPlayer(db, playerId, tx => value<boolean>(tx, 'SELECT confirm_guessed($1)', [roomId]));
+
+    expect(await confirm(TEAMMATE)).toBe(false);
+    expect(await confirm(HOST)).toBe(true);
+    expect(await confirm(HOST)).toBe(false);
+    expect(await value(db, 'SELECT count(*)::int FROM chat_messages WHERE is_correct_guess AND manual')).toBe(1);
+  });
+});
+
+describe('host migration', () => {
+  const claim = (playerId: string) =>
+    asPlayer(db, playerId, tx => value<boolean>(tx, 'SELECT transfer_host($1, $2)', [roomId, HOST]));
+  const hostGoesQuiet = () => db.query(`UPDATE players SET last_seen = NOW() - INTERVAL '1 minute' WHERE id = $1`, [HOST]);
+
+  it('waits until the old host has stopped checking in', async () => {
+    expect(await claim(TEAMMATE)).toBe(false);
+
+    await hostGoesQuiet();
+    await asPlayer(db, HOST, tx => tx.query('SELECT touch_player($1)', [roomId]));
+    expect(await claim(TEAMMATE)).toBe(false);
+
+    await hostGoesQuiet();
+    expect(await claim(TEAMMATE)).toBe(true);
+    expect(await value(db, 'SELECT host_id FROM rooms')).toBe(TEAMMATE);
+  });
+
+  it('only lets one player in the room take over', async () => {
+    await hostGoesQuiet();
+    const OUTSIDER = '00000000-0000-4000-8000-000000000009';
+    expect(await claim(OUTSIDER)).toBe(false);
+
+    expect(await claim(RIVAL)).toBe(true);
+    expect(await claim(TEAMMATE)).toBe(false);
+    expect(await value(db, 'SELECT host_id FROM rooms')).toBe(RIVAL);
+  });
+});
+
+describe('internal functions', () => {
+  it.each([
+    ['guess_verdict', `SELECT guess_verdict('00000000-0000-0000-0000-000000000000', 'x', 'x')`],
+    ['check_guess', `SELECT check_guess('00000000-0000-0000-0000-000000000000', 'x', 'x')`],
+    ['cleanup_old_rooms', 'SELECT cleanup_old_rooms()'],
+  ])("%s can't be called by players", async (_name, sql) => {
+    await expect(asPlayer(db, TEAMMATE, tx => tx.query(sql))).rejects.toThrow(/permission denied/);
+  });
+});
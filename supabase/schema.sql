@@ -4,28 +4,50 @@
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
--- Rooms table
+-- Who is asking. Supabase has auth.uid() (players sign in anonymously, see
+-- getPlayerId in src/lib/supabase.ts); elsewhere it reads the same JWT
+-- claim setting, so the schema still runs on plain Postgres.
+DO $$
+BEGIN
+  IF to_regprocedure('auth.uid()') IS NULL THEN
+    CREATE SCHEMA IF NOT EXISTS auth;
+    CREATE FUNCTION auth.uid() RETURNS UUID AS $uid$
+      SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID;
+    $uid$ LANGUAGE sql STABLE;
+  END IF;
+END $$;
+
+-- Rooms table. The schema can be run again over an existing database: the
+-- ALTERs after each table bring one made by an older version up to date.
 CREATE TABLE IF NOT EXISTS rooms (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   code VARCHAR(6) UNIQUE NOT NULL,
   host_id VARCHAR(100) NOT NULL,
   status VARCHAR(20) DEFAULT 'lobby' CHECK (status IN ('lobby', 'playing', 'finished')),
-  settings JSONB DEFAULT '{"timer_seconds": 60, "difficulty": "medium", "max_players": 8, "allow_tag_team": true}'::jsonb,
+  settings JSONB DEFAULT '{"timer_seconds": 60, "difficulty": "medium", "max_players": 8, "allow_tag_team": true, "team_count": 2, "mode": "teams", "scoring": "classic", "hint_count": 2, "word_choices": 3, "mixed_difficulty": false, "word_pack": null, "categories": [], "kid_safe": false}'::jsonb,
   current_round INT DEFAULT 0,
   total_rounds INT DEFAULT 10,
   current_word VARCHAR(100),
-  drawing_team INT DEFAULT 1 CHECK (drawing_team IN (1, 2)),
+  current_aliases TEXT[] DEFAULT '{}', -- Other answers accepted for current_word
+  drawing_team INT DEFAULT 1 CHECK (drawing_team BETWEEN 1 AND 4),
   round_start_time TIMESTAMPTZ,
+  banned_ids TEXT[] DEFAULT '{}',
+  locked BOOLEAN DEFAULT FALSE,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS current_aliases TEXT[] DEFAULT '{}';
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS banned_ids TEXT[] DEFAULT '{}';
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS locked BOOLEAN DEFAULT FALSE;
+ALTER TABLE rooms DROP CONSTRAINT IF EXISTS rooms_drawing_team_check;
+ALTER TABLE rooms ADD CONSTRAINT rooms_drawing_team_check CHECK (drawing_team BETWEEN 1 AND 4);
 
 -- Players table
 CREATE TABLE IF NOT EXISTS players (
   id VARCHAR(100) PRIMARY KEY,
   room_id UUID REFERENCES rooms(id) ON DELETE CASCADE,
   name VARCHAR(50) NOT NULL,
-  team INT CHECK (team IN (1, 2)),
+  team INT CHECK (team BETWEEN 1 AND 4),
   is_drawing BOOLEAN DEFAULT FALSE,
   score INT DEFAULT 0,
   is_ready BOOLEAN DEFAULT FALSE,
@@ -33,6 +55,8 @@ CREATE TABLE IF NOT EXISTS players (
   connected_at TIMESTAMPTZ DEFAULT NOW(),
   last_seen TIMESTAMPTZ DEFAULT NOW()
 );
+ALTER TABLE players DROP CONSTRAINT IF EXISTS players_team_check;
+ALTER TABLE players ADD CONSTRAINT players_team_check CHECK (team BETWEEN 1 AND 4);
 
 -- Drawing strokes (for replay/reconnect)
 CREATE TABLE IF NOT EXISTS drawing_strokes (
@@ -52,8 +76,12 @@ CREATE TABLE IF NOT EXISTS chat_messages (
   player_name VARCHAR(50) NOT NULL,
   text TEXT NOT NULL,
   is_correct_guess BOOLEAN DEFAULT FALSE,
+  manual BOOLEAN DEFAULT FALSE, -- The drawer's "got it" (confirm_guessed)
+  guess_rank INT, -- Correct guesses: 1 for the round's first, 2 for the next...
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS manual BOOLEAN DEFAULT FALSE;
+ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS guess_rank INT;
 
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_rooms_code ON rooms(code);
@@ -68,12 +96,57 @@ ALTER TABLE players ENABLE ROW LEVEL SECURITY;
 ALTER TABLE drawing_strokes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
 
--- Allow anyone to read/write (for simplicity in game context)
--- In production, you'd want more restrictive policies
-CREATE POLICY "Allow all access to rooms" ON rooms FOR ALL USING (true);
-CREATE POLICY "Allow all access to players" ON players FOR ALL USING (true);
-CREATE POLICY "Allow all access to drawing_strokes" ON drawing_strokes FOR ALL USING (true);
-CREATE POLICY "Allow all access to chat_messages" ON chat_messages FOR ALL USING (true);
+-- Anyone can read rooms, players and strokes; chat is for the room's
+-- players. Writes are tied to who is asking (auth.uid()): hosts
+-- write their own room, and player rows only change through save_player(),
+-- save_players() and the round functions below, so nobody can hand
+-- themselves points, a team or the pen.
+DROP POLICY IF EXISTS "Allow all access to rooms" ON rooms;
+DROP POLICY IF EXISTS "Allow all access to players" ON players;
+DROP POLICY IF EXISTS "Allow all access to drawing_strokes" ON drawing_strokes;
+DROP POLICY IF EXISTS "Allow all access to chat_messages" ON chat_messages;
+
+DROP POLICY IF EXISTS "Anyone can read rooms" ON rooms;
+CREATE POLICY "Anyone can read rooms" ON rooms FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Hosts create their rooms" ON rooms;
+CREATE POLICY "Hosts create their rooms" ON rooms FOR INSERT WITH CHECK (host_id = auth.uid()::text);
+DROP POLICY IF EXISTS "Hosts update their rooms" ON rooms;
+CREATE POLICY "Hosts update their rooms" ON rooms FOR UPDATE
+  USING (host_id = auth.uid()::text) WITH CHECK (host_id = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Anyone can read players" ON players;
+CREATE POLICY "Anyone can read players" ON players FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Players leave, hosts remove" ON players;
+CREATE POLICY "Players leave, hosts remove" ON players FOR DELETE USING (
+  id = auth.uid()::text
+  OR EXISTS (SELECT 1 FROM rooms r WHERE r.id = players.room_id AND r.host_id = auth.uid()::text)
+);
+
+-- Strokes are drawn by players in the room; the drawer (or host) clears them
+DROP POLICY IF EXISTS "Anyone can read drawing_strokes" ON drawing_strokes;
+CREATE POLICY "Anyone can read drawing_strokes" ON drawing_strokes FOR SELECT USING (true);
+DROP POLICY IF EXISTS "Players add their strokes" ON drawing_strokes;
+CREATE POLICY "Players add their strokes" ON drawing_strokes FOR INSERT WITH CHECK (
+  player_id = auth.uid()::text
+  AND EXISTS (SELECT 1 FROM players p WHERE p.id = auth.uid()::text AND p.room_id = drawing_strokes.room_id)
+);
+DROP POLICY IF EXISTS "Drawers remove strokes" ON drawing_strokes;
+CREATE POLICY "Drawers remove strokes" ON drawing_strokes FOR DELETE USING (
+  player_id = auth.uid()::text
+  OR EXISTS (
+    SELECT 1 FROM players p
+    WHERE p.id = auth.uid()::text AND p.room_id = drawing_strokes.room_id AND (p.is_drawing OR p.is_host)
+  )
+);
+
+-- Chat is read by the players in the room (Realtime only sends a client
+-- the inserts it may read). Rows are only ever added by submit_guess()
+-- and confirm_guessed().
+DROP POLICY IF EXISTS "Anyone can read chat_messages" ON chat_messages;
+DROP POLICY IF EXISTS "Players read their room's chat" ON chat_messages;
+CREATE POLICY "Players read their room's chat" ON chat_messages FOR SELECT USING (
+  EXISTS (SELECT 1 FROM players p WHERE p.room_id = chat_messages.room_id AND p.id = auth.uid()::text)
+);
 
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at()
@@ -85,29 +158,464 @@ END;
 $$ LANGUAGE plpgsql;
 
 -- Trigger for rooms updated_at
+DROP TRIGGER IF EXISTS rooms_updated_at ON rooms;
 CREATE TRIGGER rooms_updated_at
   BEFORE UPDATE ON rooms
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at();
 
 -- Function to clean up old rooms (run periodically)
+-- The host writes every round through to rooms, so updated_at is last activity
 CREATE OR REPLACE FUNCTION cleanup_old_rooms()
 RETURNS void AS $$
 BEGIN
   DELETE FROM rooms 
-  WHERE created_at < NOW() - INTERVAL '24 hours'
+  WHERE updated_at < NOW() - INTERVAL '24 hours'
   AND status = 'finished';
   
+  -- Abandoned lobbies and games nobody finished
   DELETE FROM rooms 
-  WHERE created_at < NOW() - INTERVAL '2 hours'
-  AND status = 'lobby';
+  WHERE updated_at < NOW() - INTERVAL '2 hours'
+  AND status IN ('lobby', 'playing');
+END;
+$$ LANGUAGE plpgsql;
+
+-- Server-side guess validation
+-- The round's word lives in rooms.current_word. Clients can't read it (see
+-- grants below); the host sets it through set_round_word() and every chat
+-- message is checked against it on insert, so is_correct_guess is decided
+-- here and not by the drawer's client. Plain plpgsql, so it runs on any
+-- Postgres as well as Supabase.
+
+-- Mirrors src/lib/guessMatch.ts: lower case, accents split off and dropped
+-- (NFD), and only letters and digits kept, in any script, so
+-- "Fire-truck " = "firetruck" and "crème" = "creme"
+CREATE OR REPLACE FUNCTION normalize_guess(input TEXT)
+RETURNS TEXT AS $$
+  SELECT regexp_replace(lower(normalize(input, NFD)), '[^[:alnum:]]+', '', 'g');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Levenshtein distance (fuzzystrmatch isn't available everywhere)
+CREATE OR REPLACE FUNCTION edit_distance(a TEXT, b TEXT)
+RETURNS INT AS $$
+DECLARE
+  prev INT[];
+  curr INT[];
+BEGIN
+  IF a = b THEN
+    RETURN 0;
+  END IF;
+  prev := ARRAY(SELECT generate_series(0, length(b)));
+  FOR i IN 1..length(a) LOOP
+    curr := ARRAY[i];
+    FOR j IN 1..length(b) LOOP
+      curr := curr || LEAST(
+        curr[j] + 1,
+        prev[j + 1] + 1,
+        prev[j] + CASE WHEN substr(a, i, 1) = substr(b, j, 1) THEN 0 ELSE 1 END
+      );
+    END LOOP;
+    prev := curr;
+  END LOOP;
+  RETURN prev[length(b) + 1];
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- How many typos still count as close (see closeThreshold in guessMatch.ts)
+CREATE OR REPLACE FUNCTION close_threshold(answer TEXT)
+RETURNS INT AS $$
+  SELECT CASE WHEN length(answer) <= 3 THEN 0 WHEN length(answer) <= 6 THEN 1 ELSE 2 END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Mirrors judgeGuess in guessMatch.ts: 'correct' for the word or an alias,
+-- as is or with a plural ending it doesn't have; 'close' for a near miss
+CREATE OR REPLACE FUNCTION judge_guess(p_guess TEXT, p_word TEXT, p_aliases TEXT[] DEFAULT '{}')
+RETURNS TEXT AS $$
+DECLARE
+  v_guess TEXT := normalize_guess(p_guess);
+  v_answer TEXT;
+  v_close BOOLEAN := FALSE;
+BEGIN
+  IF v_guess = '' THEN
+    RETURN 'wrong';
+  END IF;
+
+  FOREACH v_answer IN ARRAY array_prepend(p_word, COALESCE(p_aliases, '{}')) LOOP
+    v_answer := normalize_guess(v_answer);
+    IF v_guess IN (v_answer, v_answer || 's', v_answer || 'es') THEN
+      RETURN 'correct';
+    END IF;
+    IF abs(length(v_guess) - length(v_answer)) <= close_threshold(v_answer)
+       AND edit_distance(v_guess, v_answer) <= close_threshold(v_answer) THEN
+      v_close := TRUE;
+    END IF;
+  END LOOP;
+
+  RETURN CASE WHEN v_close THEN 'close' ELSE 'wrong' END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Player: join (or rejoin) a room as ourselves. Rejoining the same room
+-- keeps team and score; coming from another room starts afresh.
+CREATE OR REPLACE FUNCTION save_player(p_room_id UUID, p_name VARCHAR, p_is_ready BOOLEAN DEFAULT FALSE)
+RETURNS void AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+BEGIN
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id;
+  IF NOT FOUND OR auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Room % not found or not signed in', p_room_id;
+  END IF;
+  IF auth.uid()::text = ANY(COALESCE(v_room.banned_ids, '{}')) THEN
+    RAISE EXCEPTION 'Banned from room %', p_room_id;
+  END IF;
+
+  INSERT INTO players (id, room_id, name, is_ready, is_host, last_seen)
+  VALUES (auth.uid()::text, p_room_id, p_name, p_is_ready, v_room.host_id = auth.uid()::text, NOW())
+  ON CONFLICT (id) DO UPDATE SET
+    room_id = EXCLUDED.room_id,
+    name = EXCLUDED.name,
+    is_ready = EXCLUDED.is_ready,
+    is_host = EXCLUDED.is_host,
+    last_seen = NOW(),
+    team = CASE WHEN players.room_id = EXCLUDED.room_id THEN players.team END,
+    score = CASE WHEN players.room_id = EXCLUDED.room_id THEN players.score ELSE 0 END,
+    is_drawing = players.room_id = EXCLUDED.room_id AND players.is_drawing;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Host: teams, scores and who is drawing, for players already in its room
+-- (each player adds their own row with save_player)
+CREATE OR REPLACE FUNCTION save_players(p_room_id UUID, p_players JSONB)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND host_id = auth.uid()::text) THEN
+    RAISE EXCEPTION 'Room % not found or you are not its host', p_room_id;
+  END IF;
+
+  UPDATE players p
+  SET team = s.team, score = COALESCE(s.score, 0), is_drawing = COALESCE(s.is_drawing, FALSE)
+  FROM jsonb_to_recordset(p_players) AS s(id VARCHAR, team INT, score INT, is_drawing BOOLEAN)
+  WHERE p.id = s.id AND p.room_id = p_room_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Host: set the word for a new round (and who is drawing it), with any
+-- aliases also accepted as answers. Returns the round's start time, which
+-- guess scoring counts from.
+DROP FUNCTION IF EXISTS set_round_word(UUID, VARCHAR, INT, INT, VARCHAR, TEXT);
+DROP FUNCTION IF EXISTS set_round_word(UUID, VARCHAR, INT, INT, VARCHAR, TEXT, TEXT[]);
+CREATE OR REPLACE FUNCTION set_round_word(
+  p_room_id UUID,
+  p_round INT,
+  p_drawing_team INT,
+  p_drawer_id VARCHAR,
+  p_word TEXT,
+  p_aliases TEXT[] DEFAULT '{}'
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_started TIMESTAMPTZ;
+BEGIN
+  UPDATE rooms
+  SET current_word = p_word,
+      current_aliases = COALESCE(p_aliases, '{}'),
+      current_round = p_round,
+      drawing_team = p_drawing_team,
+      status = 'playing',
+      round_start_time = NOW()
+  WHERE id = p_room_id AND host_id = auth.uid()::text
+  RETURNING round_start_time INTO v_started;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Room % not found or you are not its host', p_room_id;
+  END IF;
+
+  UPDATE players SET is_drawing = (id = p_drawer_id) WHERE room_id = p_room_id;
+  RETURN v_started;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Host: round is over, stop accepting guesses
+DROP FUNCTION IF EXISTS clear_round_word(UUID, VARCHAR);
+CREATE OR REPLACE FUNCTION clear_round_word(p_room_id UUID)
+RETURNS void AS $$
+BEGIN
+  UPDATE rooms SET current_word = NULL, current_aliases = '{}'
+  WHERE id = p_room_id AND host_id = auth.uid()::text;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 'correct', 'close' (a near miss, only ever told to the guesser) or 'wrong'
+CREATE OR REPLACE FUNCTION guess_verdict(p_room_id UUID, p_player_id VARCHAR, p_text TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+  v_player players%ROWTYPE;
+  v_free_for_all BOOLEAN;
+BEGIN
+  -- Lock the room so two simultaneous correct guesses can't both win
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+  IF NOT FOUND OR v_room.status <> 'playing' OR v_room.current_word IS NULL THEN
+    RETURN 'wrong';
+  END IF;
+  v_free_for_all := COALESCE(v_room.settings->>'mode', 'teams') = 'free_for_all';
+
+  -- Only the drawer's teammates can guess (Pictionary rules); in
+  -- free-for-all everyone but the drawer
+  SELECT * INTO v_player FROM players WHERE id = p_player_id AND room_id = p_room_id;
+  IF NOT FOUND OR v_player.is_drawing THEN
+    RETURN 'wrong';
+  END IF;
+  IF NOT v_free_for_all AND v_player.team IS DISTINCT FROM v_room.drawing_team THEN
+    RETURN 'wrong';
+  END IF;
+
+  -- Time's up (a couple of seconds' grace for network delay)
+  IF v_room.round_start_time IS NOT NULL AND NOW() > v_room.round_start_time
+       + make_interval(secs => COALESCE((v_room.settings->>'timer_seconds')::INT, 60) + 2) THEN
+    RETURN 'wrong';
+  END IF;
+
+  -- Only the first correct guess of a round counts (in free-for-all, each
+  -- player's first)
+  IF EXISTS (
+    SELECT 1 FROM chat_messages
+    WHERE room_id = p_room_id
+      AND is_correct_guess
+      AND created_at >= v_room.round_start_time
+      AND (NOT v_free_for_all OR player_id = p_player_id)
+  ) THEN
+    RETURN 'wrong';
+  END IF;
+
+  RETURN judge_guess(p_text, v_room.current_word, v_room.current_aliases);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION check_guess(p_room_id UUID, p_player_id VARCHAR, p_text TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT guess_verdict(p_room_id, p_player_id, p_text) = 'correct';
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- is_correct_guess is always computed here, whatever the client sent (a
+-- manual row only ever comes from confirm_guessed()). A correct guess is
+-- the word, and everyone in the room can read these rows, so its text is
+-- blanked.
+-- Its rank is counted here too, while guess_verdict() holds the room
+-- locked, so every client scores it the same.
+CREATE OR REPLACE FUNCTION validate_chat_guess()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.is_correct_guess := COALESCE(NEW.manual, FALSE) OR check_guess(NEW.room_id, NEW.player_id, NEW.text);
+    NEW.guess_rank := NULL;
+    IF NEW.is_correct_guess THEN
+      NEW.text := '';
+      SELECT count(*) + 1 INTO NEW.guess_rank
+      FROM chat_messages m JOIN rooms r ON r.id = m.room_id
+      WHERE m.room_id = NEW.room_id AND m.is_correct_guess AND m.created_at >= r.round_start_time;
+    END IF;
+  ELSE
+    NEW.is_correct_guess := OLD.is_correct_guess;
+    NEW.guess_rank := OLD.guess_rank;
+  END IF;
+  RETURN NEW;
 END;
 $$ LANGUAGE plpgsql;
 
--- Enable Realtime for tables
-ALTER PUBLICATION supabase_realtime ADD TABLE rooms;
-ALTER PUBLICATION supabase_realtime ADD TABLE players;
-ALTER PUBLICATION supabase_realtime ADD TABLE chat_messages;
+DROP TRIGGER IF EXISTS chat_messages_validate_guess ON chat_messages;
+CREATE TRIGGER chat_messages_validate_guess
+  BEFORE INSERT OR UPDATE ON chat_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_chat_guess();
+
+-- Guesser: submit a guess, returns guess_verdict()'s answer.
+-- Correct guesses reach everyone in the room as a chat_messages INSERT
+-- (Realtime);
+-- a near miss only comes back here, to the guesser.
+DROP FUNCTION IF EXISTS submit_guess(UUID, VARCHAR, VARCHAR, TEXT);
+CREATE OR REPLACE FUNCTION submit_guess(p_room_id UUID, p_text TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_player players%ROWTYPE;
+  v_correct BOOLEAN;
+BEGIN
+  SELECT * INTO v_player FROM players WHERE id = auth.uid()::text AND room_id = p_room_id;
+  IF NOT FOUND THEN
+    RETURN 'wrong';
+  END IF;
+
+  INSERT INTO chat_messages (room_id, player_id, player_name, text)
+  VALUES (p_room_id, v_player.id, v_player.name, p_text)
+  RETURNING is_correct_guess INTO v_correct;
+
+  IF v_correct THEN
+    RETURN 'correct';
+  END IF;
+  RETURN CASE WHEN guess_verdict(p_room_id, v_player.id, p_text) = 'close' THEN 'close' ELSE 'wrong' END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Drawer: their team got it some other way (said out loud, say). Recorded
+-- as a correct row from the drawer, so it reaches every client the same
+-- way a guess does. Only the round's drawer can call this, once a round.
+CREATE OR REPLACE FUNCTION confirm_guessed(p_room_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+  v_drawer players%ROWTYPE;
+BEGIN
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+  IF NOT FOUND OR v_room.status <> 'playing' OR v_room.current_word IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT * INTO v_drawer FROM players
+  WHERE id = auth.uid()::text AND room_id = p_room_id AND is_drawing;
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM chat_messages
+    WHERE room_id = p_room_id AND player_id = v_drawer.id AND manual
+      AND created_at >= v_room.round_start_time
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO chat_messages (room_id, player_id, player_name, text, manual)
+  VALUES (p_room_id, v_drawer.id, v_drawer.name, '', TRUE);
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Internal: closeness only goes out for a guess that was posted to the
+-- chat, and cleanup runs on a schedule. Supabase grants EXECUTE to its API
+-- roles directly, so revoking from PUBLIC alone would leave them callable.
+REVOKE EXECUTE ON FUNCTION guess_verdict(UUID, VARCHAR, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION check_guess(UUID, VARCHAR, TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION cleanup_old_rooms() FROM PUBLIC;
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN
+    REVOKE EXECUTE ON FUNCTION guess_verdict(UUID, VARCHAR, TEXT) FROM anon, authenticated;
+    REVOKE EXECUTE ON FUNCTION check_guess(UUID, VARCHAR, TEXT) FROM anon, authenticated;
+    REVOKE EXECUTE ON FUNCTION cleanup_old_rooms() FROM anon, authenticated;
+  END IF;
+END $$;
+
+-- Heartbeat: players check in every few seconds while in a room
+-- (src/hooks/useMultiplayer.ts), so last_seen says who is still around
+CREATE OR REPLACE FUNCTION touch_player(p_room_id UUID)
+RETURNS void AS $$
+  UPDATE players SET last_seen = NOW() WHERE id = auth.uid()::text AND room_id = p_room_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Host migration: when the host drops, the remaining clients elect a new
+-- one, which claims the room here. The caller has to be in the room, and
+-- the old host has to have really gone: left for good, or no heartbeat for
+-- 30 seconds (a host that's only reconnecting keeps the room). Only the
+-- first claim against the old host_id succeeds.
+DROP FUNCTION IF EXISTS transfer_host(UUID, VARCHAR, VARCHAR);
+CREATE OR REPLACE FUNCTION transfer_host(p_room_id UUID, p_old_host_id VARCHAR)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT EXISTS (
+    SELECT 1 FROM players WHERE id = auth.uid()::text AND room_id = p_room_id
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM players
+    WHERE id = p_old_host_id AND room_id = p_room_id AND last_seen > NOW() - INTERVAL '30 seconds'
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE rooms SET host_id = auth.uid()::text
+  WHERE id = p_room_id AND host_id = p_old_host_id;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE players SET is_host = (id = auth.uid()::text) WHERE room_id = p_room_id;
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Hide rooms.current_word from API roles (skipped where they don't exist)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN
+    REVOKE SELECT, INSERT, UPDATE ON rooms FROM anon, authenticated;
+    GRANT SELECT (id, code, host_id, status, settings, current_round, total_rounds,
+                  drawing_team, round_start_time, banned_ids, locked, created_at, updated_at)
+      ON rooms TO anon, authenticated;
+    GRANT INSERT (code, host_id, status, settings, current_round, total_rounds, drawing_team)
+      ON rooms TO anon, authenticated;
+    GRANT UPDATE (status, settings, current_round, total_rounds, drawing_team, round_start_time,
+                  banned_ids, locked)
+      ON rooms TO anon, authenticated;
+  END IF;
+END $$;
+
+-- Player inboxes (getPlayerInboxName in src/lib/supabase.ts) are private
+-- Realtime channels, room:CODE:inbox:PLAYER_ID. Only that player can listen
+-- on one, and only players in the room can send to it. Supabase only
+-- (skipped where realtime.messages doesn't exist).
+DO $$
+BEGIN
+  IF to_regclass('realtime.messages') IS NOT NULL THEN
+    DROP POLICY IF EXISTS "Players read their own inbox" ON realtime.messages;
+    CREATE POLICY "Players read their own inbox" ON realtime.messages
+      FOR SELECT TO authenticated
+      USING (
+        realtime.messages.extension = 'broadcast'
+        AND split_part(realtime.topic(), ':', 1) = 'room'
+        AND split_part(realtime.topic(), ':', 3) = 'inbox'
+        AND split_part(realtime.topic(), ':', 4) = auth.uid()::text
+      );
+
+    -- The host writes to its players' inboxes (their word, their choices);
+    -- players only write to the host's (the drawer's pick)
+    DROP POLICY IF EXISTS "Players send to inboxes in their room" ON realtime.messages;
+    DROP POLICY IF EXISTS "Host and players send to each other's inboxes" ON realtime.messages;
+    CREATE POLICY "Host and players send to each other's inboxes" ON realtime.messages
+      FOR INSERT TO authenticated
+      WITH CHECK (
+        realtime.messages.extension = 'broadcast'
+        AND split_part(realtime.topic(), ':', 1) = 'room'
+        AND split_part(realtime.topic(), ':', 3) = 'inbox'
+        AND EXISTS (
+          SELECT 1 FROM public.players p JOIN public.rooms r ON r.id = p.room_id
+          WHERE p.id = auth.uid()::text AND r.code = split_part(realtime.topic(), ':', 2)
+            AND (r.host_id = auth.uid()::text OR split_part(realtime.topic(), ':', 4) = r.host_id)
+        )
+      );
+  END IF;
+END $$;
+
+-- Enable Realtime for tables (Supabase only; each table once, so the
+-- script can be run again)
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    FOREACH v_table IN ARRAY ARRAY['rooms', 'players', 'chat_messages'] LOOP
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+      ) THEN
+        EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE %I', v_table);
+      END IF;
+    END LOOP;
+  END IF;
+END $$;
 
 COMMENT ON TABLE rooms IS 'Game rooms for Pictionary Party';
 COMMENT ON TABLE players IS 'Players currently in rooms';
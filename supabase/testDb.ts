@@ -0,0 +1,47 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { PGlite, Transaction } from '@electric-sql/pglite';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+
+/**
+ * schema.sql on an in-process Postgres (PGlite), set up the way Supabase
+ * is: API roles with its default grants, and auth.uid() read from the JWT
+ * claim. Realtime bits are skipped by the schema's own guards.
+ */
+
+export const SCHEMA = readFileSync(path.join(__dirname, 'schema.sql'), 'utf8');
+
+const SUPABASE_ROLES = `
+  CREATE ROLE anon NOLOGIN;
+  CREATE ROLE authenticated NOLOGIN;
+  GRANT USAGE ON SCHEMA public TO anon, authenticated;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON FUNCTIONS TO anon, authenticated;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated;
+`;
+
+// `existing` is run first, to stand in for a database made by an older schema
+export const createDb = async (existing = ''): Promise<PGlite> => {
+  const db = new PGlite({ extensions: { uuid_ossp } });
+  await db.exec(SUPABASE_ROLES);
+  if (existing) await db.exec(existing);
+  await db.exec(SCHEMA);
+  await db.exec('GRANT USAGE ON SCHEMA auth TO anon, authenticated;');
+  return db;
+};
+
+export const resetDb = (db: PGlite) => db.exec('TRUNCATE rooms, players, drawing_strokes, chat_messages CASCADE;');
+
+// Run as a signed-in player, the way a request through the API would
+export const asPlayer = <T>(db: PGlite, playerId: string, run: (tx: Transaction) => Promise<T>): Promise<T> =>
+  db.transaction(async tx => {
+    await tx.exec('SET LOCAL ROLE authenticated;');
+    await tx.query(`SELECT set_config('request.jwt.claim.sub', $1, true)`, [playerId]);
+    return run(tx);
+  });
+
+// First column of the first row
+export const value = async <T>(tx: Pick<Transaction, 'query'>, sql: string, params: unknown[] = []): Promise<T> => {
+  const { rows } = await tx.query<Record<string, T>>(sql, params);
+  return Object.values(rows[0])[0];
+};